@@ -1,68 +1,287 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { StyleSheet, TextInput, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { useClinicalPipeline } from '@/hooks/useClinicalPipeline';
-import { ChatMessage, FinalDiagnosis, PatientData } from '@/types/pipeline';
+import { PipelineStage, useClinicalPipeline } from '@/hooks/useClinicalPipeline';
+import { Encounter, EncounterSettings } from '@/types/encounter';
+import { ChatMessage, ConfidenceComponents, FinalDiagnosis, PatientData } from '@/types/pipeline';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { PipelineConfig } from '@/constants/config';
+import { StreamingMessage } from '@/components/streaming-message';
+import { CodeMappings } from '@/components/code-mappings';
+import { ConceptNavigator } from '@/components/concept-navigator';
+import { ProcedureSuggestions } from '@/components/procedure-suggestions';
+import { CONFIDENCE_IS_CALIBRATED } from '@/utils/confidence';
+import { proposalFor } from '@/utils/differential';
+import { getEncounter, newEncounterId, saveEncounter } from '@/utils/encounterStore';
+import { isFhirValidationError } from '@/utils/fhir';
+import { exportEncounterBundle, shareFhirBundle } from '@/utils/fhirExport';
+import { withClinicianConcept } from '@/utils/grounding';
+import { nextInterviewQuestion } from '@/utils/interview';
+import { formatPromptStamp } from '@/utils/prompts';
+import { evaluateRedFlags, modelRedFlags } from '@/utils/redFlags';
+import { SnomedConceptRef } from '@/utils/snomedHierarchy';
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  idle: 'Processing...',
+  extracting: 'Extracting Data...',
+  proposing: 'Proposing Diagnoses...',
+  mapping: 'Mapping SNOMED...',
+  explaining: 'Explaining...',
+};
+
+// "retrieval 82% · agreement 67% · token p n/a", so the clinician sees what the confidence rests on
+const formatConfidenceComponents = (components: ConfidenceComponents) =>
+  ([['retrieval', components.retrieval], ['agreement', components.agreement], ['token p', components.token_probability]] as const)
+    .map(([label, value]) => `${label} ${value === null ? 'n/a' : `${Math.round(value * 100)}%`}`)
+    .join(' · ');
+
+// Everything that makes up the encounter except when it was saved
+const snapshotOf = ({ updatedAt, ...content }: Encounter) => JSON.stringify(content);
 
 export default function ChatScreen() {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [patientData, setPatientData] = useState<PatientData | null>(null);
+  // Number of messages already folded into patientData
+  const [extractedUpTo, setExtractedUpTo] = useState(0);
+  // Interview mode: the assistant asks follow-up questions until the history is complete
+  const [interviewMode, setInterviewMode] = useState(true);
+  const [askedQuestions, setAskedQuestions] = useState<string[]>([]);
   const [diagnoses, setDiagnoses] = useState<FinalDiagnosis[]>([]);
+  // The encounter being edited; every change is saved under this id
+  const [encounterId, setEncounterId] = useState(newEncounterId);
+  const [createdAt, setCreatedAt] = useState(Date.now);
+  const [settings, setSettings] = useState<EncounterSettings | null>(null);
+  // What was last written to the store, so reopening an encounter doesn't count as an edit
+  const savedSnapshotRef = useRef('');
   const colorScheme = useColorScheme();
   const theme = Colors[colorScheme ?? 'light'];
   
-  // Use the new on-device pipeline hook
-  const { cactusLM, loading, stage, chatExtract, proposeDiagnoses, explainAndMap } = useClinicalPipeline();
+  // The hook hides where inference runs (device, server or both)
+  const {
+    backendKind, setBackendKind, loading, stage, streamingText, missingModels, missingFallbackModels, assignments,
+    startRun, cancel, extractIncremental, proposeDiagnoses, explainAndMap
+  } = useClinicalPipeline();
+
+  // Rule-based, so this updates on every message even before (or without) a successful extraction
+  const redFlags = evaluateRedFlags(
+    patientData,
+    messages.filter(m => m.role === 'user').map(m => m.content).join('\n')
+  );
+  // What the extractor called a red flag. Shown apart: no rule has checked it
+  const reportedFlags = modelRedFlags(patientData);
+
+  const router = useRouter();
+  // Set by the Encounters tab to reopen an encounter, optionally to analyse it again from
+  // scratch. `opened` changes on every request so the same encounter can be reopened.
+  const params = useLocalSearchParams<{ encounter?: string; reanalyse?: string; opened?: string }>();
+
+  const resetEncounter = () => {
+    cancel();
+    setMessages([]);
+    setPatientData(null);
+    setExtractedUpTo(0);
+    setInterviewMode(true);
+    setAskedQuestions([]);
+    setDiagnoses([]);
+    setSettings(null);
+    setEncounterId(newEncounterId());
+    setCreatedAt(Date.now());
+  };
+
+  useEffect(() => {
+    if (!params.encounter) return;
+    let mounted = true;
+    getEncounter(params.encounter).then(encounter => {
+      if (!mounted || !encounter) return;
+      cancel();
+      savedSnapshotRef.current = snapshotOf(encounter);
+      setEncounterId(encounter.id);
+      setCreatedAt(encounter.createdAt);
+      if (params.reanalyse) {
+        // Keep only the consultation itself; extraction and the differential run again
+        setMessages(encounter.messages.filter(m => !m.system));
+        setPatientData(null);
+        setExtractedUpTo(0);
+        setDiagnoses([]);
+        setSettings(null);
+        setInterviewMode(false);
+        setAskedQuestions(encounter.interview.askedQuestions);
+      } else {
+        setMessages(encounter.messages);
+        setPatientData(encounter.patientData);
+        setExtractedUpTo(encounter.interview.extractedUpTo);
+        setDiagnoses(encounter.diagnoses);
+        setSettings(encounter.settings);
+        setInterviewMode(encounter.interview.active);
+        setAskedQuestions(encounter.interview.askedQuestions);
+      }
+    }).catch(err => {
+      console.error("Failed to open encounter:", err);
+      Alert.alert('Encounter Error', 'Could not open the saved encounter.');
+    });
+    return () => {
+      mounted = false;
+    };
+    // cancel() is rebuilt every render; only a new request should reload
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.encounter, params.reanalyse, params.opened]);
+
+  // Autosave: every change to the consultation is written to the encounter store
+  useEffect(() => {
+    if (messages.length === 0) return;
+    const encounter: Encounter = {
+      id: encounterId,
+      createdAt,
+      updatedAt: Date.now(),
+      messages,
+      patientData,
+      diagnoses,
+      interview: { active: interviewMode, askedQuestions, extractedUpTo },
+      settings,
+    };
+    const snapshot = snapshotOf(encounter);
+    if (snapshot === savedSnapshotRef.current) return;
+    // Only a save that went through counts: after a failure the next change writes everything again
+    saveEncounter(encounter)
+      .then(() => { savedSnapshotRef.current = snapshot; })
+      .catch(err => console.error("Failed to save encounter:", err));
+  }, [encounterId, createdAt, messages, patientData, diagnoses, interviewMode, askedQuestions, extractedUpTo, settings]);
+
+  // A run on a model that isn't on the device would only fail; send the user to download it
+  const confirmModelReady = () => {
+    if (missingModels.length === 0) return true;
+    Alert.alert(
+      'Model Not Downloaded',
+      `${missingModels.join(', ')} ${missingModels.length === 1 ? 'needs' : 'need'} to be downloaded before the pipeline can run on this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Open Models', onPress: () => router.push('/models') },
+      ]
+    );
+    return false;
+  };
+
+  // Hybrid runs without the on-device fallback when its models aren't downloaded, so
+  // an unreachable server ends the run. Say so once for each set of missing models.
+  const fallbackNoticeRef = useRef<string | null>(null);
+  const confirmFallback = () => new Promise<boolean>(resolve => {
+    const notice = missingFallbackModels.join(', ');
+    if (!notice || fallbackNoticeRef.current === notice) return resolve(true);
+    Alert.alert(
+      'No On-Device Fallback',
+      `${notice} ${missingFallbackModels.length === 1 ? 'is' : 'are'} not downloaded, so if the server can't be reached the diagnosis steps will fail instead of running on this device.`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Open Models', onPress: () => { resolve(false); router.push('/models'); } },
+        { text: 'Run Anyway', onPress: () => { fallbackNoticeRef.current = notice; resolve(true); } },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
+  // The clinician moved a diagnosis to a broader or more specific concept
+  const replaceChosenConcept = (index: number, concept: SnomedConceptRef) => {
+    setDiagnoses(prev => prev.map((d, i) => i === index ? withClinicianConcept(d, concept.id) : d));
+  };
+
+  // Hands the encounter to an EHR as a FHIR R4 Bundle file
+  const exportFhir = async () => {
+    if (!patientData) return;
+    try {
+      const bundle = await exportEncounterBundle(patientData, diagnoses, createdAt);
+      await shareFhirBundle(bundle, encounterId);
+    } catch (err) {
+      console.error("FHIR export failed:", err);
+      Alert.alert('Export Failed', isFhirValidationError(err) ? (err as Error).message : 'Could not export the encounter.');
+    }
+  };
 
   const sendMessage = async () => {
     if (!input.trim()) return;
+    if (interviewMode && !confirmModelReady()) return;
 
     const userMsg: ChatMessage = { role: 'user', content: input };
     const newMessages = [...messages, userMsg];
     setMessages(newMessages);
     setInput('');
-    
-    // In a real chat, we might want the LLM to reply conversationally too.
-    // For this pipeline, we just collect messages.
-    // We could use cactusLM.complete here for conversational response if desired.
+
+    if (!interviewMode) return;
+
+    // Fold the answer into patientData, then ask about the most important gap left
+    const signal = startRun();
+    const data = await extractIncremental(newMessages, patientData, extractedUpTo, signal);
+    if (signal.aborted) return;
+    if (data) {
+      setPatientData(data);
+      setExtractedUpTo(newMessages.length);
+    }
+
+    const next = nextInterviewQuestion(data ?? patientData, askedQuestions);
+    if (!next) {
+      setInterviewMode(false);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        system: true,
+        content: "History complete. Tap Analyze & Diagnose to build the differential."
+      }]);
+      return;
+    }
+
+    // Questions are ordinary assistant turns so the extractor sees what each answer refers to
+    setAskedQuestions(prev => [...prev, next.key]);
+    setMessages(prev => [...prev, { role: 'assistant', content: next.question }]);
   };
 
   const runPipeline = async () => {
-    if (messages.length === 0) {
+    if (!messages.some(m => m.role === 'user')) {
       Alert.alert('Empty Chat', 'Please chat with the patient first.');
       return;
     }
+    if (!confirmModelReady() || !(await confirmFallback())) return;
+
+    // Starting a new run cancels the previous one; every step below bails out
+    // once its signal is aborted so a cancelled run never touches the screen.
+    const signal = startRun();
 
     try {
-      // Step 1: Extract Data (On-Device)
-      const data = await chatExtract(messages);
+      // Step 1: Extract Data from the turns added since the last run
+      const upTo = messages.length;
+      const data = await extractIncremental(messages, patientData, extractedUpTo, signal);
+      if (signal.aborted) return;
       if (!data) {
         Alert.alert('Extraction Failed', 'Could not extract patient data.');
         return;
       }
-      setPatientData(data);
-      
-      // Add extracted JSON to chat
-      setMessages(prev => [...prev, { 
-        role: 'assistant', 
-        content: "Extracted Patient Data:\n" + JSON.stringify(data, null, 2) 
-      }]);
 
-      // Step 2: Propose Diagnoses (On-Device)
-      const candidates = await proposeDiagnoses(data);
-      
+      if (data !== patientData) {
+        setPatientData(data);
+        setExtractedUpTo(upTo);
+
+        // Add extracted JSON to chat
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          system: true,
+          content: "Extracted Patient Data:\n" + JSON.stringify(data, null, 2)
+        }]);
+      }
+
+      // Step 2: Propose Diagnoses
+      const candidates = await proposeDiagnoses(data, signal);
+      if (signal.aborted) return;
+
       if (candidates.length === 0) {
         console.warn("No diagnoses proposed. Check logs for raw LLM output.");
         Alert.alert('Diagnosis Failed', 'The model could not generate a valid diagnosis list. Please try again or rephrase symptoms.');
         
         setMessages(prev => [...prev, { 
            role: 'assistant', 
+           system: true,
            content: "System: Failed to propose diagnoses. The model output could not be parsed." 
         }]);
 
@@ -73,14 +292,30 @@ export default function ChatScreen() {
       // Add diagnoses to chat
       setMessages(prev => [...prev, { 
         role: 'assistant', 
-        content: "Proposed Diagnoses:\n" + candidates.map(c => `- ${c}`).join('\n') 
+        system: true,
+        content: "Proposed Diagnoses:\n" + candidates
+          .map(c => `- ${c.phrase}${c.frequency !== undefined ? ` (${Math.round(c.frequency * 100)}% of samples)` : ''}`)
+          .join('\n')
       }]);
 
-      // Step 3: Map & Explain (On-Device)
-      const final = await explainAndMap(data, candidates);
-      setDiagnoses(final);
+      // Step 3: Map & Explain
+      const final = await explainAndMap(data, candidates.map(c => c.phrase), signal);
+      if (signal.aborted) return;
+      // The remote backend doesn't sample, so its proposals carry no vote share
+      setDiagnoses(final.map(d => {
+        const proposal = proposalFor(d, candidates);
+        return { ...d, vote_frequency: proposal?.frequency, proposal_prompt: proposal?.prompt };
+      }));
+      setSettings({
+        backend: backendKind,
+        models: { ...assignments },
+        differentialSize: PipelineConfig.differentialSize,
+        proposalSamples: PipelineConfig.proposalSamples,
+        confidenceSamples: PipelineConfig.confidenceSamples,
+      });
 
     } catch (error) {
+      if (signal.aborted) return;
       console.error(error);
       Alert.alert('Pipeline Error', 'Failed to run clinical pipeline.');
     }
@@ -90,6 +325,52 @@ export default function ChatScreen() {
     <SafeAreaView style={styles.container}>
       <ThemedView style={styles.header}>
         <ThemedText type="title">Clinical Assistant</ThemedText>
+        <ThemedView style={styles.optionRow}>
+          {PipelineConfig.backendKinds.map(kind => (
+            <TouchableOpacity
+              key={kind}
+              onPress={() => setBackendKind(kind)}
+              disabled={loading}
+              style={[
+                styles.option,
+                { borderColor: theme.tint },
+                backendKind === kind && { backgroundColor: theme.tint }
+              ]}
+            >
+              <ThemedText style={[styles.optionText, backendKind === kind && styles.optionTextActive]}>
+                {kind}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            onPress={() => setInterviewMode(mode => !mode)}
+            disabled={loading}
+            style={[
+              styles.option,
+              { borderColor: theme.tint },
+              interviewMode && { backgroundColor: theme.tint }
+            ]}
+          >
+            <ThemedText style={[styles.optionText, interviewMode && styles.optionTextActive]}>
+              interview
+            </ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={resetEncounter}
+            style={[styles.option, { borderColor: theme.tint }]}
+          >
+            <ThemedText style={styles.optionText}>new encounter</ThemedText>
+          </TouchableOpacity>
+          {patientData && diagnoses.length > 0 && (
+            <TouchableOpacity
+              onPress={exportFhir}
+              disabled={loading}
+              style={[styles.option, { borderColor: theme.tint }]}
+            >
+              <ThemedText style={styles.optionText}>export FHIR</ThemedText>
+            </TouchableOpacity>
+          )}
+        </ThemedView>
       </ThemedView>
 
       <ScrollView style={styles.chatContainer}>
@@ -106,14 +387,55 @@ export default function ChatScreen() {
             </ThemedText>
           </ThemedView>
         ))}
-        
+
+        {/* Live output of the running stage; replaced by the parsed result when it finishes */}
+        {loading && stage !== 'idle' && (
+          <ThemedView style={[styles.messageBubble, styles.aiBubble]}>
+            <StreamingMessage label={STAGE_LABELS[stage]} text={streamingText} textStyle={styles.aiText} />
+          </ThemedView>
+        )}
+
         {patientData && (
           <ThemedView style={styles.resultCard}>
             <ThemedText type="subtitle">Extracted Data</ThemedText>
-            <ThemedText>{patientData.free_text_summary}</ThemedText>
-            {patientData.symptoms && patientData.symptoms.length > 0 && patientData.symptoms.map((s, i) => (
-              <ThemedText key={i}>• {s.name} ({s.location})</ThemedText>
+            {patientData.demographics && (
+              <ThemedText>
+                {[
+                  patientData.demographics.age !== undefined ? `${patientData.demographics.age} y` : null,
+                  patientData.demographics.sex
+                ].filter(Boolean).join(', ')}
+              </ThemedText>
+            )}
+            {patientData.free_text_summary && <ThemedText>{patientData.free_text_summary}</ThemedText>}
+            {patientData.symptoms.map((s, i) => (
+              <ThemedText key={i}>• {s.name}{s.location ? ` (${s.location})` : ''}</ThemedText>
+            ))}
+            {patientData.extraction_prompts && (
+              <ThemedText style={styles.confidence}>
+                Prompts: {patientData.extraction_prompts.map(formatPromptStamp).join(' · ')}
+              </ThemedText>
+            )}
+          </ThemedView>
+        )}
+
+        {(redFlags.length > 0 || reportedFlags.length > 0) && (
+          <ThemedView style={styles.redFlagBanner}>
+            <ThemedText type="subtitle" style={styles.redFlagTitle}>⚠ Red Flags</ThemedText>
+            {redFlags.map(flag => (
+              <ThemedView key={flag.code} style={styles.redFlagItem}>
+                <ThemedText type="defaultSemiBold" style={styles.redFlagTitle}>{flag.title}</ThemedText>
+                <ThemedText style={styles.redFlagText}>{flag.rationale}</ThemedText>
+                <ThemedText style={styles.redFlagCode}>Screening rule {flag.code}</ThemedText>
+              </ThemedView>
             ))}
+            {reportedFlags.length > 0 && (
+              <ThemedView style={styles.redFlagItem}>
+                <ThemedText type="defaultSemiBold" style={styles.redFlagTitle}>Reported by the model, not checked by a rule</ThemedText>
+                {reportedFlags.map(flag => (
+                  <ThemedText key={flag} style={styles.redFlagText}>• {flag}</ThemedText>
+                ))}
+              </ThemedView>
+            )}
           </ThemedView>
         )}
 
@@ -122,9 +444,32 @@ export default function ChatScreen() {
              <ThemedText type="subtitle">Differential Diagnosis</ThemedText>
              {diagnoses.map((d, i) => (
                <ThemedView key={i} style={styles.diagnosisItem}>
-                 <ThemedText type="defaultSemiBold">{d.phrase} ({Math.round(d.confidence * 100)}%)</ThemedText>
+                 <ThemedText type="defaultSemiBold">{d.phrase} ({d.clinician_selected ? 'concept chosen by clinician' : `${Math.round(d.confidence * 100)}%${CONFIDENCE_IS_CALIBRATED ? '' : ', uncalibrated score'}`})</ThemedText>
+                 {d.vote_frequency !== undefined && (
+                   <ThemedText style={styles.confidence}>Proposed in {Math.round(d.vote_frequency * 100)}% of samples</ThemedText>
+                 )}
+                 {d.confidence_components && (
+                   <ThemedText style={styles.confidence}>{formatConfidenceComponents(d.confidence_components)}</ThemedText>
+                 )}
                  <ThemedText style={styles.explanation}>{d.explanation}</ThemedText>
                  <ThemedText style={styles.snomed}>SNOMED: {d.chosen_snomed_ids.join(', ')}</ThemedText>
+                 {d.clinician_selected && d.model_snomed_id && (
+                   <ThemedText style={styles.confidence}>The model chose {d.model_snomed_id}; its explanation and score were for that concept.</ThemedText>
+                 )}
+                 {d.corrected && <ThemedText style={styles.corrected}>⚠ Code corrected: {d.grounding_note}</ThemedText>}
+                 {(d.proposal_prompt || d.prompt) && (
+                   <ThemedText style={styles.confidence}>
+                     Prompts: {[d.proposal_prompt, d.prompt].filter(p => p !== undefined).map(formatPromptStamp).join(' · ')}
+                   </ThemedText>
+                 )}
+                 <CodeMappings diagnosis={d} patientData={patientData} />
+                <ProcedureSuggestions diagnosis={d} patientData={patientData} />
+                 {d.chosen_snomed_ids.length > 0 && (
+                   <ConceptNavigator
+                     conceptId={d.chosen_snomed_ids[0]}
+                     onSelect={concept => replaceChosenConcept(i, concept)}
+                   />
+                 )}
                </ThemedView>
              ))}
           </ThemedView>
@@ -136,34 +481,35 @@ export default function ChatScreen() {
           style={[styles.input, { color: theme.text, borderColor: theme.icon }]}
           value={input}
           onChangeText={setInput}
-          placeholder="Type patient symptoms..."
+          placeholder={interviewMode ? "Answer or describe symptoms..." : "Type patient symptoms..."}
           placeholderTextColor="#888"
         />
-        <TouchableOpacity onPress={sendMessage} style={styles.sendButton}>
+        <TouchableOpacity onPress={sendMessage} style={styles.sendButton} disabled={loading}>
           <IconSymbol name="arrow.up.circle.fill" size={32} color={theme.tint} />
         </TouchableOpacity>
       </ThemedView>
 
-      <TouchableOpacity 
-        style={[styles.analyzeButton, { backgroundColor: theme.tint }]} 
-        onPress={runPipeline}
-        disabled={loading}
-      >
-        {loading ? (
-          <ThemedView style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: 'transparent' }}>
-            <ActivityIndicator color="#fff" style={{ marginRight: 8 }} />
-            <ThemedText style={styles.analyzeText}>
-              {stage === 'extracting' ? 'Extracting Data...' :
-               stage === 'proposing' ? 'Proposing Diagnoses...' :
-               stage === 'mapping' ? 'Mapping SNOMED...' :
-               stage === 'explaining' ? 'Explaining...' : 
-               'Processing...'}
-            </ThemedText>
-          </ThemedView>
-        ) : (
-          <ThemedText style={styles.analyzeText}>Analyze & Diagnose</ThemedText>
+      <ThemedView style={styles.actionRow}>
+        <TouchableOpacity 
+          style={[styles.analyzeButton, { backgroundColor: theme.tint }]} 
+          onPress={runPipeline}
+          disabled={loading}
+        >
+          {loading ? (
+            <ThemedView style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: 'transparent' }}>
+              <ActivityIndicator color="#fff" style={{ marginRight: 8 }} />
+              <ThemedText style={styles.analyzeText}>{STAGE_LABELS[stage]}</ThemedText>
+            </ThemedView>
+          ) : (
+            <ThemedText style={styles.analyzeText}>Analyze & Diagnose</ThemedText>
+          )}
+        </TouchableOpacity>
+        {loading && (
+          <TouchableOpacity style={styles.cancelButton} onPress={cancel}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </TouchableOpacity>
         )}
-      </TouchableOpacity>
+      </ThemedView>
     </SafeAreaView>
   );
 }
@@ -177,6 +523,24 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#ccc',
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 13,
+  },
+  optionTextActive: {
+    color: '#fff',
+  },
   chatContainer: {
     flex: 1,
     padding: 16,
@@ -219,11 +583,27 @@ const styles = StyleSheet.create({
   sendButton: {
     padding: 4,
   },
-  analyzeButton: {
+  actionRow: {
+    flexDirection: 'row',
     margin: 16,
+    gap: 8,
+  },
+  analyzeButton: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
     padding: 16,
     borderRadius: 8,
     alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FF3B30',
+  },
+  cancelText: {
+    color: '#fff',
+    fontWeight: 'bold',
   },
   analyzeText: {
     color: '#fff',
@@ -236,12 +616,39 @@ const styles = StyleSheet.create({
     backgroundColor: '#f0f0f0', 
     // Note: In a real app, handle dark mode for this background too
   },
+  redFlagBanner: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#D70015',
+    backgroundColor: '#FFE5E5',
+  },
+  redFlagItem: {
+    marginTop: 8,
+    backgroundColor: 'transparent',
+  },
+  redFlagTitle: {
+    color: '#D70015',
+  },
+  redFlagText: {
+    fontSize: 14,
+    color: '#5c0000',
+  },
+  redFlagCode: {
+    fontSize: 12,
+    color: '#a33',
+  },
   diagnosisItem: {
     marginTop: 8,
     paddingTop: 8,
     borderTopWidth: 1,
     borderTopColor: '#ddd',
   },
+  confidence: {
+    fontSize: 11,
+    color: '#888',
+  },
   explanation: {
     fontSize: 14,
     color: '#555',
@@ -250,6 +657,11 @@ const styles = StyleSheet.create({
   snomed: {
     fontSize: 12,
     color: '#888',
+  },
+  corrected: {
+    fontSize: 11,
+    color: '#b26a00',
+    marginTop: 2,
   }
 });
 
@@ -0,0 +1,213 @@
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { wipePatientData } from '@/services/secureWipe';
+import { vault } from '@/services/vault';
+import { EncounterSummary } from '@/types/encounter';
+import { deleteEncounter, listEncounters } from '@/utils/encounterStore';
+
+const formatDate = (epochMs: number) => new Date(epochMs).toLocaleString();
+
+// Past consultations, newest first. Opening one continues it in the chat;
+// re-analysing keeps the transcript and builds the differential again.
+export default function EncountersScreen() {
+  const [query, setQuery] = useState('');
+  const [encounters, setEncounters] = useState<EncounterSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+
+  const load = useCallback(async (search: string) => {
+    setLoading(true);
+    try {
+      setEncounters(await listEncounters(search));
+    } catch (err) {
+      console.error("Failed to list encounters:", err);
+      setEncounters([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // The chat saves while this tab is in the background, so reload on focus as well as on search
+  useFocusEffect(useCallback(() => {
+    load(query);
+  }, [load, query]));
+
+  const open = (id: string, reanalyse: boolean) => {
+    router.push({
+      pathname: '/chat',
+      params: { encounter: id, opened: String(Date.now()), ...(reanalyse ? { reanalyse: '1' } : {}) },
+    });
+  };
+
+  const confirmDelete = (encounter: EncounterSummary) => {
+    Alert.alert('Delete Encounter', `Delete "${encounter.title}"? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteEncounter(encounter.id).catch(err => console.error("Failed to delete encounter:", err));
+          load(query);
+        },
+      },
+    ]);
+  };
+
+  const confirmWipe = () => {
+    Alert.alert(
+      'Wipe All Data',
+      'Permanently delete every saved encounter and the passcode? Downloaded models are kept. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Wipe',
+          style: 'destructive',
+          onPress: () => {
+            wipePatientData().catch(err => console.error("Failed to wipe data:", err));
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <ThemedView style={styles.titleRow}>
+          <ThemedText type="title">Encounters</ThemedText>
+          <ThemedView style={styles.headerActions}>
+            <TouchableOpacity style={[styles.button, { borderColor: theme.tint }]} onPress={() => vault.lock()}>
+              <ThemedText style={styles.buttonText}>Lock</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={confirmWipe}>
+              <ThemedText style={[styles.buttonText, styles.deleteText]}>Wipe</ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+        </ThemedView>
+        <TextInput
+          style={[styles.search, { color: theme.text, borderColor: theme.icon }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search transcripts, symptoms and diagnoses"
+          placeholderTextColor="#999"
+          autoCorrect={false}
+        />
+      </ThemedView>
+      <ScrollView contentContainerStyle={styles.list}>
+        {loading && <ActivityIndicator style={styles.loading} />}
+        {!loading && encounters.length === 0 && (
+          <ThemedText style={styles.empty}>
+            {query ? 'No encounters match your search.' : 'No saved encounters yet. Consultations are saved as you chat.'}
+          </ThemedText>
+        )}
+        {encounters.map(encounter => (
+          <ThemedView key={encounter.id} style={styles.card}>
+            <TouchableOpacity onPress={() => open(encounter.id, false)}>
+              <ThemedText type="defaultSemiBold">{encounter.title}</ThemedText>
+              <ThemedText style={styles.detail}>
+                Started {formatDate(encounter.createdAt)} · updated {formatDate(encounter.updatedAt)}
+              </ThemedText>
+              {encounter.diagnoses.length > 0 && (
+                <ThemedText style={styles.diagnoses}>{encounter.diagnoses.join(' · ')}</ThemedText>
+              )}
+            </TouchableOpacity>
+            <ThemedView style={styles.actions}>
+              <TouchableOpacity style={[styles.button, { borderColor: theme.tint }]} onPress={() => open(encounter.id, false)}>
+                <ThemedText style={styles.buttonText}>Continue</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, { borderColor: theme.tint }]} onPress={() => open(encounter.id, true)}>
+                <ThemedText style={styles.buttonText}>Re-analyse</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={() => confirmDelete(encounter)}>
+                <ThemedText style={[styles.buttonText, styles.deleteText]}>Delete</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          </ThemedView>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ccc',
+    gap: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  search: {
+    height: 40,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  empty: {
+    textAlign: 'center',
+    color: '#888',
+    marginTop: 24,
+  },
+  card: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    gap: 4,
+  },
+  detail: {
+    fontSize: 12,
+    color: '#888',
+  },
+  diagnoses: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 13,
+  },
+  deleteButton: {
+    borderColor: '#c0392b',
+  },
+  deleteText: {
+    color: '#c0392b',
+  },
+});
@@ -0,0 +1,203 @@
+import React from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { SnomedVectorExport } from '@/components/snomed-vector-export';
+import { ThemedView } from '@/components/themed-view';
+import { PipelineConfig } from '@/constants/config';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useModels } from '@/hooks/useModels';
+import { ModelEntry } from '@/services/models';
+import { ModelRole } from '@/types/pipeline';
+
+const formatSize = (sizeMb: number | null) =>
+  sizeMb === null ? 'size unknown' : sizeMb >= 1024 ? `${(sizeMb / 1024).toFixed(1)} GB` : `${Math.round(sizeMb)} MB`;
+
+const ROLE_LABELS: Record<ModelRole, string> = {
+  extraction: 'Extraction',
+  reasoning: 'Reasoning',
+  embedding: 'Embedding',
+};
+
+// Lists the Cactus models, downloads them ahead of a consultation, frees space and
+// picks the model each on-device role runs on.
+export default function ModelsScreen() {
+  const { models, assignments, loaded, error, store } = useModels();
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+
+  const usedMb = models.filter(m => m.isDownloaded).reduce((sum, m) => sum + (m.sizeMb ?? 0), 0);
+
+  const confirmDelete = (model: ModelEntry) => {
+    Alert.alert(
+      'Delete Model',
+      `Remove ${model.name} from this device? It can be downloaded again later.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          // Rejects when the model was assigned a role while the dialog was open
+          onPress: () => { store.remove(model.slug).catch(err => Alert.alert('Cannot Delete', err instanceof Error ? err.message : String(err))); },
+        },
+      ]
+    );
+  };
+
+  const renderModel = (model: ModelEntry) => {
+    const roles = PipelineConfig.modelRoles.filter(role => assignments[role] === model.slug);
+    const assigned = roles.length > 0;
+    const downloading = model.progress !== null;
+    return (
+      <ThemedView key={model.slug} style={[styles.card, assigned && { borderColor: theme.tint }]}>
+        <ThemedText type="defaultSemiBold">{model.name}</ThemedText>
+        <ThemedText style={styles.detail}>
+          {model.slug} · {formatSize(model.sizeMb)}{model.supportsVision ? ' · vision' : ''}
+        </ThemedText>
+
+        {downloading ? (
+          <ThemedView style={styles.progressRow}>
+            <ThemedView style={styles.progressTrack}>
+              <ThemedView style={[styles.progressFill, { width: `${Math.round((model.progress ?? 0) * 100)}%`, backgroundColor: theme.tint }]} />
+            </ThemedView>
+            <ThemedText style={styles.detail}>{Math.round((model.progress ?? 0) * 100)}%</ThemedText>
+          </ThemedView>
+        ) : (
+          <ThemedView style={styles.actions}>
+            {!model.isDownloaded && (
+              <TouchableOpacity style={[styles.button, { borderColor: theme.tint }]} onPress={() => store.download(model.slug)}>
+                <ThemedText style={styles.buttonText}>{model.error ? 'Retry download' : 'Download'}</ThemedText>
+              </TouchableOpacity>
+            )}
+            {model.isDownloaded && !assigned && (
+              <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={() => confirmDelete(model)}>
+                <ThemedText style={[styles.buttonText, styles.deleteText]}>Delete</ThemedText>
+              </TouchableOpacity>
+            )}
+            {model.isDownloaded && assigned && (
+              <ThemedText style={styles.detail}>Downloaded. Assign its roles to another model to delete it.</ThemedText>
+            )}
+          </ThemedView>
+        )}
+        <ThemedView style={styles.actions}>
+          <ThemedText style={styles.detail}>Use for</ThemedText>
+          {PipelineConfig.modelRoles.map(role => (
+            <TouchableOpacity
+              key={role}
+              onPress={() => store.assign(role, model.slug)}
+              style={[styles.button, { borderColor: theme.tint }, roles.includes(role) && { backgroundColor: theme.tint }]}
+            >
+              <ThemedText style={[styles.buttonText, roles.includes(role) && styles.buttonTextActive]}>{ROLE_LABELS[role]}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+        {__DEV__ && model.isDownloaded && roles.includes('embedding') && (
+          <SnomedVectorExport model={model.slug} tint={theme.tint} />
+        )}
+        {model.error && <ThemedText style={styles.error}>{model.error}</ThemedText>}
+      </ThemedView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="title">Models</ThemedText>
+        <ThemedText style={styles.detail}>
+          {formatSize(usedMb)} used by downloaded models
+        </ThemedText>
+      </ThemedView>
+      <ScrollView contentContainerStyle={styles.list}>
+        {!loaded && <ActivityIndicator style={styles.loading} />}
+        {error && (
+          <ThemedText style={styles.error}>Could not load the model list: {error}</ThemedText>
+        )}
+        {models.map(renderModel)}
+        {loaded && (
+          <TouchableOpacity style={styles.refresh} onPress={() => store.refresh()}>
+            <ThemedText type="link">Refresh</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ccc',
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  card: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    gap: 4,
+  },
+  detail: {
+    fontSize: 12,
+    color: '#888',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 13,
+  },
+  buttonTextActive: {
+    color: '#fff',
+  },
+  deleteButton: {
+    borderColor: '#c0392b',
+  },
+  deleteText: {
+    color: '#c0392b',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+  },
+  error: {
+    fontSize: 12,
+    color: '#c0392b',
+  },
+  refresh: {
+    alignSelf: 'center',
+    paddingVertical: 12,
+  },
+});
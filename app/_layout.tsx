@@ -1,5 +1,10 @@
 import { Stack } from 'expo-router';
+import { VaultGate } from '@/components/vault-gate';
 
 export default function RootLayout() {
-  return <Stack />;
+  return (
+    <VaultGate>
+      <Stack />
+    </VaultGate>
+  );
 }
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { FinalDiagnosis, PatientData } from '@/types/pipeline';
+import { getIcd10Codes, MappedCode } from '@/utils/snomedMaps';
+
+// ICD-10 codes mapped from a diagnosis' SNOMED concepts, for reporting. OPCS-4
+// codes apply to procedures, not disorders; see ProcedureSuggestions for those.
+export function CodeMappings({ diagnosis, patientData }: { diagnosis: FinalDiagnosis; patientData?: PatientData | null }) {
+  const [icd10, setIcd10] = useState<MappedCode[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    getIcd10Codes(diagnosis, patientData).then(codes => {
+      if (mounted) setIcd10(codes);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [diagnosis, patientData]);
+
+  if (icd10.length === 0) return null;
+
+  return (
+    <ThemedView style={styles.container}>
+      {icd10.map((code, i) => (
+        <ThemedView key={i} style={styles.row}>
+          <ThemedText style={styles.code}>ICD-10: {code.code ?? 'no code'}</ThemedText>
+          {code.needsReview && <ThemedText style={styles.review}>⚠ {code.reviewReason}</ThemedText>}
+        </ThemedView>
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+    backgroundColor: 'transparent',
+  },
+  row: {
+    backgroundColor: 'transparent',
+  },
+  code: {
+    fontSize: 12,
+    color: '#888',
+  },
+  review: {
+    fontSize: 11,
+    color: '#b26a00',
+  },
+});
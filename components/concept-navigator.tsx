@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { getChildren, getConceptTerm, getParents, SnomedConceptRef } from '@/utils/snomedHierarchy';
+
+type Direction = 'broader' | 'narrower';
+
+// Lets the clinician move a chosen SNOMED code up to a parent concept or down to a child.
+export function ConceptNavigator({ conceptId, onSelect }: { conceptId: string; onSelect: (concept: SnomedConceptRef) => void }) {
+  const [term, setTerm] = useState<string | null>(null);
+  const [direction, setDirection] = useState<Direction | null>(null);
+  const [options, setOptions] = useState<SnomedConceptRef[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    setDirection(null);
+    setOptions([]);
+    getConceptTerm(conceptId).then(t => {
+      if (mounted) setTerm(t);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [conceptId]);
+
+  // The lookup runs in an effect so a newer tap or concept (or unmounting) discards an older answer
+  useEffect(() => {
+    if (!direction) return;
+    let current = true;
+    setLoading(true);
+    (direction === 'broader' ? getParents(conceptId) : getChildren(conceptId)).then(concepts => {
+      if (!current) return;
+      setOptions(concepts);
+      setLoading(false);
+    });
+    return () => {
+      current = false;
+    };
+  }, [conceptId, direction]);
+
+  const explore = (next: Direction) => {
+    setDirection(direction === next ? null : next);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {term && <ThemedText style={styles.term}>{term}</ThemedText>}
+      <ThemedView style={styles.row}>
+        <TouchableOpacity style={styles.button} onPress={() => explore('broader')}>
+          <ThemedText style={styles.buttonText}>▲ Broader</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => explore('narrower')}>
+          <ThemedText style={styles.buttonText}>▼ More specific</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+
+      {direction && (loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : options.length === 0 ? (
+        <ThemedText style={styles.empty}>
+          {direction === 'broader' ? 'No broader concept found.' : 'No more specific concept found.'}
+        </ThemedText>
+      ) : (
+        options.map(option => (
+          <TouchableOpacity key={option.id} style={styles.option} onPress={() => onSelect(option)}>
+            <ThemedText style={styles.optionText}>{option.term ?? option.id}</ThemedText>
+            <ThemedText style={styles.optionId}>{option.id}</ThemedText>
+          </TouchableOpacity>
+        ))
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+    backgroundColor: 'transparent',
+  },
+  term: {
+    fontSize: 13,
+    color: '#555',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+    backgroundColor: 'transparent',
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#0a7ea4',
+  },
+  buttonText: {
+    fontSize: 12,
+    color: '#0a7ea4',
+  },
+  loading: {
+    marginTop: 8,
+  },
+  empty: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  option: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#ddd',
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  optionId: {
+    fontSize: 11,
+    color: '#888',
+  },
+});
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { FinalDiagnosis, PatientData, SuggestedProcedure } from '@/types/pipeline';
+import { getProcedureCodes, suggestProcedures } from '@/utils/procedureSuggestions';
+import { MappedCode } from '@/utils/snomedMaps';
+
+type CodedSuggestion = SuggestedProcedure & { codes: MappedCode[] };
+
+const KIND_LABELS: Record<SuggestedProcedure['kind'], string> = {
+  investigation: 'Investigations',
+  procedure: 'Procedures',
+};
+
+// Investigations and procedures to consider for a diagnosis, with the OPCS-4
+// codes their SNOMED concepts map to for UK coding.
+export function ProcedureSuggestions({ diagnosis, patientData }: { diagnosis: FinalDiagnosis; patientData?: PatientData | null }) {
+  const [suggestions, setSuggestions] = useState<CodedSuggestion[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all(suggestProcedures(diagnosis).map(async suggestion => ({
+      ...suggestion,
+      codes: await getProcedureCodes(suggestion, diagnosis, patientData),
+    }))).then(coded => {
+      if (mounted) setSuggestions(coded);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [diagnosis, patientData]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ThemedView style={styles.container}>
+      {(Object.keys(KIND_LABELS) as SuggestedProcedure['kind'][]).map(kind => {
+        const items = suggestions.filter(s => s.kind === kind);
+        if (items.length === 0) return null;
+        return (
+          <ThemedView key={kind} style={styles.group}>
+            <ThemedText style={styles.heading}>{KIND_LABELS[kind]} to consider</ThemedText>
+            {items.map(item => (
+              <ThemedView key={item.conceptId} style={styles.row}>
+                <ThemedText style={styles.label}>
+                  {item.label} · OPCS-4: {item.codes.length > 0 ? item.codes.map(c => c.code ?? 'no code').join(', ') : 'no map'}
+                </ThemedText>
+                {item.codes.filter(c => c.needsReview).map((c, i) => (
+                  <ThemedText key={i} style={styles.review}>⚠ {c.reviewReason}</ThemedText>
+                ))}
+              </ThemedView>
+            ))}
+          </ThemedView>
+        );
+      })}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+    backgroundColor: 'transparent',
+  },
+  group: {
+    marginTop: 2,
+    backgroundColor: 'transparent',
+  },
+  heading: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+  },
+  row: {
+    backgroundColor: 'transparent',
+  },
+  label: {
+    fontSize: 12,
+    color: '#888',
+  },
+  review: {
+    fontSize: 11,
+    color: '#b26a00',
+  },
+});
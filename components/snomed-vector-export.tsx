@@ -0,0 +1,76 @@
+import { useCactusLM } from 'cactus-react-native';
+import * as Sharing from 'expo-sharing';
+import { useEffect, useRef, useState } from 'react';
+import { Alert, StyleSheet, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { isAbortError } from '@/utils/abort';
+import { exportDescriptionEmbeddings, VectorExportProgress } from '@/utils/snomedVectorExport';
+
+// Development tool on the Models screen: embeds the SNOMED descriptions with the
+// assigned embedding model and shares the vectors for build_snomed_vectors.py.
+// It loads its own copy of the model, next to whatever the pipeline has resident,
+// which is fine for a build step but not something to leave in a release.
+export function SnomedVectorExport({ model, tint }: { model: string; tint: string }) {
+  const lm = useCactusLM({ model });
+  const [progress, setProgress] = useState<VectorExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: 0 });
+    try {
+      const embed = async (text: string) => (await lm.embed({ text })).embedding;
+      const path = await exportDescriptionEmbeddings(embed, model, { signal: controller.signal, onProgress: setProgress });
+      await Sharing.shareAsync(path, { dialogTitle: 'SNOMED vectors', mimeType: 'application/vnd.sqlite3' });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("SNOMED vector export failed:", err);
+      Alert.alert('Export Failed', String(err));
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const running = progress !== null;
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={styles.detail}>
+        {running
+          ? `Embedding SNOMED descriptions: ${progress.done} / ${progress.total}`
+          : 'Dev: embed the SNOMED descriptions with this model for the vector index. Resumes where it stopped.'}
+      </ThemedText>
+      <TouchableOpacity
+        style={[styles.button, { borderColor: tint }]}
+        onPress={running ? () => controllerRef.current?.abort() : run}
+      >
+        <ThemedText style={styles.buttonText}>{running ? 'Stop' : 'Export SNOMED vectors'}</ThemedText>
+      </TouchableOpacity>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    gap: 4,
+    alignItems: 'flex-start',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#888',
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,59 @@
+import { StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Collapsible } from '@/components/ui/collapsible';
+
+// Splits partial model output into <think> reasoning and the visible answer.
+// A <think> without its closing tag means the model is still reasoning.
+export function splitThinking(text: string) {
+  const thinking: string[] = [];
+  let answer = text.replace(/<think>([\s\S]*?)<\/think>/g, (_, inner: string) => {
+    thinking.push(inner.trim());
+    return '';
+  });
+
+  const openIndex = answer.indexOf('<think>');
+  const isThinking = openIndex !== -1;
+  if (isThinking) {
+    thinking.push(answer.slice(openIndex + '<think>'.length).trim());
+    answer = answer.slice(0, openIndex);
+  }
+
+  return {
+    thinking: thinking.filter(t => t.length > 0).join('\n\n'),
+    answer: answer.replace(/<\|im_end\|>/g, '').trim(),
+    isThinking,
+  };
+}
+
+export function StreamingMessage({ label, text, textStyle }: { label: string; text: string; textStyle?: StyleProp<TextStyle> }) {
+  const { thinking, answer, isThinking } = splitThinking(text);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedText style={[textStyle, styles.label]}>{label}</ThemedText>
+      {thinking.length > 0 && (
+        <Collapsible title={isThinking ? 'Thinking…' : 'Reasoning'}>
+          <ThemedText style={[textStyle, styles.thinking]}>{thinking}</ThemedText>
+        </Collapsible>
+      )}
+      {answer.length > 0 && <ThemedText style={textStyle}>{answer}</ThemedText>}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'transparent',
+  },
+  label: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  thinking: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+});
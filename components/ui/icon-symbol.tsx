@@ -20,6 +20,8 @@ const MAPPING = {
   'chevron.right': 'chevron-right',
   'bubble.left.and.bubble.right.fill': 'chat',
   'arrow.up.circle.fill': 'arrow-upward',
+  'cpu': 'memory',
+  'clock.fill': 'history',
 } as IconMapping;
 
 /**
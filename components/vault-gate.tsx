@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { ActivityIndicator, Alert, AppState, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { PipelineConfig } from '@/constants/config';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { wipePatientData } from '@/services/secureWipe';
+import { isVaultThrottledError, MIN_PASSCODE_LENGTH, vault } from '@/services/vault';
+import { unlockAllowedAt, WIPE_OFFER_ATTEMPTS } from '@/utils/unlockThrottle';
+
+const LOCK_TIMEOUT_MS = PipelineConfig.lockTimeoutMinutes * 60_000;
+
+// Locks the vault after LOCK_TIMEOUT_MS without a touch, counting time spent in
+// the background. Touches are observed in the capture phase without claiming the
+// responder, so they still reach the screens underneath.
+function useInactivityLock(active: boolean) {
+  const lastActivity = useRef(Date.now());
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const arm = useCallback(() => {
+    lastActivity.current = Date.now();
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(() => vault.lock(), LOCK_TIMEOUT_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    arm();
+    // Timers don't run while the app is suspended, so check the elapsed time on return
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') return;
+      if (Date.now() - lastActivity.current >= LOCK_TIMEOUT_MS) vault.lock();
+      else arm();
+    });
+    return () => {
+      subscription.remove();
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, [active, arm]);
+
+  return useCallback(() => {
+    if (active) arm();
+    return false;
+  }, [active, arm]);
+}
+
+// Seconds until the next passcode guess is accepted, ticking down; 0 when one is accepted now
+function useUnlockWait() {
+  const attempts = useSyncExternalStore(vault.subscribe, vault.getAttempts);
+  const [now, setNow] = useState(Date.now());
+  const allowedAt = unlockAllowedAt(attempts, now);
+
+  useEffect(() => {
+    if (allowedAt === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(allowedAt - Date.now(), 1000));
+    return () => clearTimeout(timer);
+  }, [allowedAt, now]);
+
+  return { failed: attempts.failed, waitSeconds: allowedAt === null ? 0 : Math.ceil((allowedAt - now) / 1000) };
+}
+
+// Shown instead of the app until the passcode is entered. The app's screens are
+// only mounted while the vault is unlocked, so locking unmounts them and drops
+// every decrypted transcript they held.
+export function VaultGate({ children }: { children: React.ReactNode }) {
+  const status = useSyncExternalStore(vault.subscribe, vault.getStatus);
+  const [passcode, setPasscode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+  const onTouch = useInactivityLock(status === 'unlocked');
+  const { failed, waitSeconds } = useUnlockWait();
+
+  useEffect(() => {
+    vault.load();
+  }, []);
+
+  // Never leave a typed passcode in state once it has been used
+  useEffect(() => {
+    setPasscode('');
+    setConfirmation('');
+    setError(null);
+  }, [status]);
+
+  const submit = async () => {
+    if (status === 'unset') {
+      if (passcode.length < MIN_PASSCODE_LENGTH) return setError(`Use at least ${MIN_PASSCODE_LENGTH} characters.`);
+      if (passcode !== confirmation) return setError('The passcodes do not match.');
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      if (status === 'unset') await vault.setup(passcode);
+      else if (!(await vault.unlock(passcode))) {
+        setPasscode('');
+        setError('Wrong passcode.');
+      }
+    } catch (err) {
+      if (isVaultThrottledError(err)) return setError(err.message);
+      console.error("Failed to open vault:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmWipe = () => {
+    Alert.alert(
+      'Wipe All Data',
+      'Permanently delete every saved encounter and the passcode? Downloaded models are kept. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Wipe',
+          style: 'destructive',
+          onPress: () => {
+            wipePatientData().catch(err => {
+              console.error("Failed to wipe data:", err);
+              Alert.alert('Wipe Failed', String(err));
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  if (status === 'unlocked') {
+    return (
+      <View style={styles.app} onStartShouldSetResponderCapture={onTouch} onMoveShouldSetResponderCapture={onTouch}>
+        {children}
+      </View>
+    );
+  }
+
+  if (status === 'loading') {
+    return (
+      <ThemedView style={styles.center}>
+        <ActivityIndicator />
+      </ThemedView>
+    );
+  }
+
+  const settingUp = status === 'unset';
+  const waiting = !settingUp && waitSeconds > 0;
+  const offerWipe = !settingUp && failed >= WIPE_OFFER_ATTEMPTS;
+  const inputStyle = [styles.input, { color: theme.text, borderColor: theme.icon }];
+
+  return (
+    <ThemedView style={styles.app}>
+      <SafeAreaView style={styles.center}>
+        <ThemedText type="title">{settingUp ? 'Set a Passcode' : 'Locked'}</ThemedText>
+        <ThemedText style={styles.detail}>
+          {settingUp
+            ? 'Saved encounters are encrypted with a key derived from this passcode. It cannot be recovered if forgotten.'
+            : 'Enter your passcode to open saved encounters.'}
+        </ThemedText>
+        <TextInput
+          style={inputStyle}
+          value={passcode}
+          onChangeText={setPasscode}
+          placeholder="Passcode"
+          placeholderTextColor="#999"
+          secureTextEntry
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!busy}
+          onSubmitEditing={settingUp ? undefined : submit}
+        />
+        {settingUp && (
+          <TextInput
+            style={inputStyle}
+            value={confirmation}
+            onChangeText={setConfirmation}
+            placeholder="Confirm passcode"
+            placeholderTextColor="#999"
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!busy}
+            onSubmitEditing={submit}
+          />
+        )}
+        {error && !waiting && <ThemedText style={styles.error}>{error}</ThemedText>}
+        {waiting && (
+          <ThemedText style={styles.error}>
+            {failed} wrong passcodes. Try again in {waitSeconds >= 60 ? `${Math.ceil(waitSeconds / 60)} min` : `${waitSeconds} s`}.
+          </ThemedText>
+        )}
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.tint }, (busy || !passcode || waiting) && styles.buttonDisabled]}
+          onPress={submit}
+          disabled={busy || !passcode || waiting}
+        >
+          {busy ? <ActivityIndicator color="#fff" /> : <ThemedText style={styles.buttonText}>{settingUp ? 'Set Passcode' : 'Unlock'}</ThemedText>}
+        </TouchableOpacity>
+        {offerWipe && (
+          <ThemedText style={styles.detail}>
+            After {WIPE_OFFER_ATTEMPTS} wrong passcodes the data may be better wiped than guessed at. Wiping can&apos;t be undone.
+          </ThemedText>
+        )}
+        {!settingUp && (
+          <TouchableOpacity
+            style={offerWipe ? styles.wipeButton : undefined}
+            onPress={confirmWipe}
+            disabled={busy}
+          >
+            <ThemedText style={styles.wipeText}>{offerWipe ? 'Wipe all data' : 'Forgot passcode? Wipe all data'}</ThemedText>
+          </TouchableOpacity>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  app: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  detail: {
+    textAlign: 'center',
+    color: '#888',
+  },
+  input: {
+    alignSelf: 'stretch',
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 22,
+    paddingHorizontal: 16,
+  },
+  error: {
+    color: '#c0392b',
+  },
+  button: {
+    alignSelf: 'stretch',
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  wipeText: {
+    color: '#c0392b',
+    marginTop: 12,
+  },
+  wipeButton: {
+    borderWidth: 1,
+    borderColor: '#c0392b',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+});
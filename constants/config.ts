@@ -0,0 +1,62 @@
+/**
+ * Runtime configuration for the clinical pipeline.
+ * Values come from EXPO_PUBLIC_* environment variables (see https://docs.expo.dev/guides/environment-variables/)
+ * so they can be changed per build without touching code.
+ */
+
+import { Platform } from 'react-native';
+
+import { InferenceBackendKind, ModelRole } from '@/types/pipeline';
+
+// 10.0.2.2 is the host machine as seen from the Android emulator; iOS/Web can use localhost.
+const DEFAULT_API_URL = Platform.OS === 'android' ? 'http://10.0.2.2:8000' : 'http://localhost:8000';
+
+const BACKEND_KINDS: InferenceBackendKind[] = ['on-device', 'remote', 'hybrid'];
+
+const parseBackendKind = (value: string | undefined): InferenceBackendKind =>
+  BACKEND_KINDS.includes(value as InferenceBackendKind) ? (value as InferenceBackendKind) : 'on-device';
+
+// Every role falls back to EXPO_PUBLIC_MODEL, so one variable still configures a single-model setup
+const DEFAULT_MODEL = process.env.EXPO_PUBLIC_MODEL || 'lfm2-vl-1.6b';
+
+const MODEL_ROLES: ModelRole[] = ['extraction', 'reasoning', 'embedding'];
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const PipelineConfig = {
+  /** Base URL of the remote pipeline server, without a trailing slash. */
+  apiUrl: (process.env.EXPO_PUBLIC_API_URL || DEFAULT_API_URL).replace(/\/+$/, ''),
+  /** Backend used when the app starts. Can be switched at runtime from the chat screen. */
+  defaultBackend: parseBackendKind(process.env.EXPO_PUBLIC_INFERENCE_BACKEND),
+  backendKinds: BACKEND_KINDS,
+  /**
+   * Cactus model per on-device role, until changed on the Models screen: extraction
+   * runs chatExtract, reasoning runs proposeDiagnoses and explainAndMap, embedding
+   * ranks SNOMED candidates.
+   */
+  models: {
+    extraction: process.env.EXPO_PUBLIC_EXTRACTION_MODEL || DEFAULT_MODEL,
+    reasoning: process.env.EXPO_PUBLIC_REASONING_MODEL || DEFAULT_MODEL,
+    embedding: process.env.EXPO_PUBLIC_EMBEDDING_MODEL || DEFAULT_MODEL,
+  } as Record<ModelRole, string>,
+  modelRoles: MODEL_ROLES,
+  /** Diagnoses kept in the proposed differential. */
+  differentialSize: parsePositiveInt(process.env.EXPO_PUBLIC_DIFFERENTIAL_SIZE, 3),
+  /** Diagnosis lists sampled on device and voted on to build the differential. */
+  proposalSamples: parsePositiveInt(process.env.EXPO_PUBLIC_PROPOSAL_SAMPLES, 5),
+  /** Completions sampled when mapping diagnoses on device; their agreement feeds the confidence score. 1 disables sampling. */
+  confidenceSamples: parsePositiveInt(process.env.EXPO_PUBLIC_CONFIDENCE_SAMPLES, 3),
+  /**
+   * Record every on-device completion and embedding as replay fixtures (see utils/fixtureLog.ts).
+   * Debugging only: the fixtures hold the prompts, so the consultation transcripts, and are
+   * written in plaintext, outside the vault's encryption. Never enable it with real patients.
+   */
+  recordCompletions: process.env.EXPO_PUBLIC_RECORD_COMPLETIONS === 'true',
+  /** Minutes without a touch, or in the background, before patient data is locked again. */
+  lockTimeoutMinutes: parsePositiveInt(process.env.EXPO_PUBLIC_LOCK_TIMEOUT_MINUTES, 5),
+  /** Canonical base of the StructureDefinitions for the app's own FHIR extensions. Set it to where your profiles are published. */
+  fhirExtensionBase: (process.env.EXPO_PUBLIC_FHIR_EXTENSION_BASE || 'https://reactnativemed.example/fhir/StructureDefinition').replace(/\/+$/, ''),
+};
@@ -0,0 +1,72 @@
+import { ModelPromptOverrides, PromptId, PromptTemplate } from '@/types/prompts';
+
+// The prompts were tuned on lfm2-vl-1.6b. The evaluation fixtures in
+// eval/fixtures are keyed on the exact rendered text, so re-record them after
+// editing a template (see README, Evaluation).
+
+export const PROMPT_TEMPLATES: Record<PromptId, PromptTemplate> = {
+  extract: {
+    id: 'extract',
+    version: 1,
+    messages: [{
+      role: 'system',
+      content: `Extract patient details. Return JSON only: {"demographics": {"age": number, "sex": "male" | "female" | "other"}, "symptoms": [{"name": "string", "onset": "string", "duration": "string", "character": "string", "location": "string", "severity": "string", "worse_with": "string", "relieved_by": "string"}], "past_medical_history": ["string"], "medications": ["string"], "free_text_summary": "string"}. Leave out fields that were not mentioned.`,
+    }],
+  },
+
+  // Sent after the model's invalid answer, as the next user turn
+  'extract-repair': {
+    id: 'extract-repair',
+    version: 1,
+    messages: [{
+      role: 'user',
+      content: `Your JSON has these problems:\n{{errors}}\nReturn the corrected JSON only.`,
+    }],
+  },
+
+  // Plain text list, one per line: JSON is brittle with small models, and
+  // commas appear inside diagnosis names
+  propose: {
+    id: 'propose',
+    version: 1,
+    messages: [
+      {
+        role: 'system',
+        content: `Based on the patient data, list up to {{count}} potential diagnoses, most likely first. Write one diagnosis per line. Do not use numbers, bullet points or explanations.`,
+      },
+      { role: 'user', content: `Patient Data: {{patient}}` },
+    ],
+  },
+
+  explain: {
+    id: 'explain',
+    version: 1,
+    messages: [
+      {
+        role: 'user',
+        content: `Context Data:
+  Patient: {{patient}}`,
+      },
+      {
+        role: 'user',
+        content: `
+  Match these diagnoses to SNOMED codes, choosing only from the candidate codes listed for each one.
+{{candidates}}
+
+  Return valid JSON array only, one object per diagnosis.
+  Example:
+  [
+    { "phrase": "<diagnosis>", "chosen_snomed_ids": ["<code from its candidates>"], "confidence": 0.9, "explanation": "Matched based on symptoms." }
+  ]`,
+      },
+    ],
+  },
+};
+
+// Keyed by model name prefix; the longest matching prefix wins
+export const MODEL_PROMPT_OVERRIDES: Record<string, ModelPromptOverrides> = {
+  // Qwen3 thinks before answering unless told not to, which costs most of the token budget
+  qwen3: { format: { userSuffix: ' /no_think' } },
+  // Gemma's chat template has no system turn
+  gemma: { format: { foldSystem: true } },
+};
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CactusLMHandle } from '@/services/onDevice';
+import { createRecordingLM, createReplayLM, LMFixture, parseFixtures } from '@/services/replayLM';
+import { diffMetrics, Metrics, runVignette, summarize, Vignette, VignetteResult } from './harness';
+import { createScriptedLM } from './scriptedLM';
+
+// Command line front end for the evaluation harness; run it through
+// scripts/evaluate.js, which sets up TypeScript and the React Native shims.
+
+const USAGE = `Usage: node scripts/evaluate.js [options]
+
+  --corpus <file>         Vignettes to run (default eval/vignettes.json)
+  --lm <scripted|file>    LM to use: the scripted fake (default), replay:<fixtures.jsonl>
+                          to serve recorded completions, or a module exporting
+                          createLM(vignette) that returns a useCactusLM-compatible object
+  --record <file>         Record every completion and embedding of this run as fixtures
+  --model <name>          Model name passed to the pipeline (default lfm2-vl-1.6b)
+  --baseline <file>       Metrics to compare against (default eval/baseline.json)
+  --save-baseline         Write this run's metrics to the baseline file
+  --max-regression <x>    Exit with an error if a metric drops by more than x (default 0.01)
+  --verbose               Show pipeline logging
+`;
+
+interface Options {
+  corpus: string;
+  lm: string;
+  record: string | null;
+  model: string;
+  baseline: string;
+  saveBaseline: boolean;
+  maxRegression: number;
+  verbose: boolean;
+}
+
+type LMFactory = (vignette: Vignette) => CactusLMHandle | Promise<CactusLMHandle>;
+
+const parseArgs = (argv: string[]): Options | null => {
+  const options: Options = {
+    corpus: path.join(__dirname, 'vignettes.json'),
+    lm: 'scripted',
+    record: null,
+    model: 'lfm2-vl-1.6b',
+    baseline: path.join(__dirname, 'baseline.json'),
+    saveBaseline: false,
+    maxRegression: 0.01,
+    verbose: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${argv[i]} needs a value`);
+      return argv[++i];
+    };
+    switch (argv[i]) {
+      case '--corpus': options.corpus = value(); break;
+      case '--lm': options.lm = value(); break;
+      case '--record': options.record = value(); break;
+      case '--model': options.model = value(); break;
+      case '--baseline': options.baseline = value(); break;
+      case '--save-baseline': options.saveBaseline = true; break;
+      case '--max-regression': options.maxRegression = Number(value()); break;
+      case '--verbose': options.verbose = true; break;
+      case '--help': return null;
+      default: throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+  return options;
+};
+
+const loadLMFactory = async (lm: string): Promise<LMFactory> => {
+  if (lm === 'scripted') {
+    return vignette => {
+      if (!vignette.script) throw new Error(`Vignette ${vignette.id} has no script for the scripted LM`);
+      return createScriptedLM(vignette.script);
+    };
+  }
+  if (lm.startsWith('replay:')) {
+    const fixtures = parseFixtures(fs.readFileSync(lm.slice('replay:'.length), 'utf8'));
+    return () => createReplayLM(fixtures);
+  }
+  const module = await import(path.resolve(lm));
+  if (typeof module.createLM !== 'function') throw new Error(`${lm} does not export createLM(vignette)`);
+  return module.createLM;
+};
+
+// The pipeline logs every raw completion; keep the report readable unless asked
+const quietly = async <T,>(verbose: boolean, task: () => Promise<T>): Promise<T> => {
+  if (verbose) return task();
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await task();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+};
+
+const pct = (value: number | null) => value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+const printResults = (results: VignetteResult[], metrics: Metrics) => {
+  for (const result of results) {
+    const status = result.error ? `ERROR ${result.error}` : `recall@3 ${pct(result.recall['@3'])}  proposed: ${result.proposed.join(' | ')}`;
+    console.log(`  ${result.id.padEnd(24)} ${status}`);
+  }
+  console.log(`\n${metrics.vignettes} vignettes, ${metrics.failures} failed`);
+  console.log('Extraction accuracy');
+  for (const [field, value] of Object.entries(metrics.extraction)) console.log(`  ${field.padEnd(22)} ${pct(value)}`);
+  console.log('Diagnosis recall');
+  for (const [k, value] of Object.entries(metrics.recall)) console.log(`  top${k.padEnd(19)} ${pct(value)}`);
+  console.log(`SNOMED mapping precision ${pct(metrics.mapping_precision)}`);
+};
+
+// Returns how many metrics regressed beyond the allowed margin
+const printDiff = (baseline: Metrics, metrics: Metrics, maxRegression: number) => {
+  console.log('\nAgainst baseline');
+  let regressions = 0;
+  for (const { metric, baseline: before, current, delta } of diffMetrics(baseline, metrics)) {
+    // Failures are a count where lower is better; everything else is a rate where higher is better
+    const regressed = delta !== null && (metric === 'failures' ? delta > 0 : delta < -maxRegression);
+    if (regressed) regressions++;
+    const change = delta === null ? '' : metric === 'failures' ? `${delta >= 0 ? '+' : ''}${delta}` : `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)}pt`;
+    const format = (v: number | null) => metric === 'failures' ? String(v ?? 'n/a').padStart(6) : pct(v);
+    console.log(`  ${metric.padEnd(30)} ${format(before)} -> ${format(current)}  ${change}${regressed ? '  REGRESSION' : ''}`);
+  }
+  return regressions;
+};
+
+/** Runs the evaluation and returns the process exit code. */
+export const main = async (argv: string[]): Promise<number> => {
+  let options: Options | null;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const vignettes: Vignette[] = JSON.parse(fs.readFileSync(options.corpus, 'utf8'));
+  const createLM = await loadLMFactory(options.lm);
+  console.log(`Evaluating ${vignettes.length} vignettes with the ${options.lm} LM (${options.model})\n`);
+
+  // Embeddings repeat across vignettes; one fixture per text is enough
+  const recorded: LMFixture[] = [];
+  const embedded = new Set<string>();
+  const record = (fixture: LMFixture) => {
+    if (fixture.kind === 'embed') {
+      if (embedded.has(fixture.text)) return;
+      embedded.add(fixture.text);
+    }
+    recorded.push(fixture);
+  };
+
+  const results: VignetteResult[] = [];
+  for (const vignette of vignettes) {
+    const base = await createLM(vignette);
+    const lm = options.record ? createRecordingLM(base, record) : base;
+    const opts = options;
+    results.push(await quietly(opts.verbose, () => runVignette(vignette, lm, opts.model)));
+  }
+
+  const metrics = summarize(results);
+  printResults(results, metrics);
+  if (options.record) {
+    fs.writeFileSync(options.record, recorded.map(fixture => JSON.stringify(fixture)).join('\n') + '\n');
+    console.log(`\nRecorded ${recorded.length} fixtures to ${options.record}`);
+  }
+
+  let regressions = 0;
+  if (fs.existsSync(options.baseline) && !options.saveBaseline) {
+    regressions = printDiff(JSON.parse(fs.readFileSync(options.baseline, 'utf8')), metrics, options.maxRegression);
+  }
+  if (options.saveBaseline) {
+    fs.writeFileSync(options.baseline, JSON.stringify(metrics, null, 2) + '\n');
+    console.log(`\nSaved baseline to ${options.baseline}`);
+  }
+  if (regressions > 0) {
+    console.log(`\n${regressions} metric(s) regressed`);
+    return 1;
+  }
+  return 0;
+};
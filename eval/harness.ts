@@ -0,0 +1,175 @@
+import type { CactusLMHandle } from '@/services/onDevice';
+import { createSingleModelRouter } from '@/services/modelRouter';
+import { createOnDeviceBackend } from '@/services/onDevice';
+import { Demographics, FinalDiagnosis, PatientData, ProposedDiagnosis } from '@/types/pipeline';
+import { normalizeDiagnosis } from '@/utils/differential';
+import { Script } from './scriptedLM';
+
+// Runs the extraction -> proposal -> mapping stages over a corpus of clinical
+// vignettes and scores each stage against gold annotations. The LM is supplied
+// by the caller, so the same run works with the scripted LM on CI and with a
+// real model locally.
+
+export interface GoldDiagnosis {
+  phrase: string;
+  snomed_id: string;
+}
+
+export interface Vignette {
+  id: string;
+  /** Patient turns of the consultation, in order. */
+  transcript: string[];
+  gold: {
+    demographics?: Demographics;
+    symptoms: string[];
+    past_medical_history?: string[];
+    medications?: string[];
+    /** Most likely first. */
+    diagnoses: GoldDiagnosis[];
+  };
+  /** Replies for the scripted LM. */
+  script?: Script;
+}
+
+export interface VignetteResult {
+  id: string;
+  /** Field -> score in 0-1. */
+  extraction: Record<string, number>;
+  proposed: string[];
+  /** k -> share of gold diagnoses found in the top k of the final differential. */
+  recall: Record<string, number>;
+  /** Mapped diagnoses that match a gold phrase, and how many got the gold concept. */
+  mapping: { matched: number; correct: number };
+  error?: string;
+}
+
+export interface Metrics {
+  vignettes: number;
+  failures: number;
+  extraction: Record<string, number>;
+  recall: Record<string, number>;
+  mapping_precision: number | null;
+}
+
+export const RECALL_AT = [1, 3, 5];
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Overlap of two lists by normalised text; two empty lists agree completely
+const jaccard = (predicted: string[], gold: string[]) => {
+  const a = new Set(predicted.map(normalizeText));
+  const b = new Set(gold.map(normalizeText));
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(item => { if (b.has(item)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+/** Field-level extraction scores. Only fields the vignette annotates are scored. */
+export const scoreExtraction = (data: PatientData, gold: Vignette['gold']): Record<string, number> => {
+  const scores: Record<string, number> = {};
+  if (gold.demographics?.age !== undefined) scores.age = data.demographics?.age === gold.demographics.age ? 1 : 0;
+  if (gold.demographics?.sex !== undefined) scores.sex = data.demographics?.sex === gold.demographics.sex ? 1 : 0;
+  scores.symptoms = jaccard(data.symptoms.map(s => s.name), gold.symptoms);
+  if (gold.past_medical_history) scores.past_medical_history = jaccard(data.past_medical_history, gold.past_medical_history);
+  if (gold.medications) scores.medications = jaccard(data.medications, gold.medications);
+  return scores;
+};
+
+// A final diagnosis finds a gold one through its concept, or failing that through its wording
+const findsGold = (diagnosis: FinalDiagnosis, gold: GoldDiagnosis) =>
+  diagnosis.chosen_snomed_ids.includes(gold.snomed_id) ||
+  normalizeDiagnosis(diagnosis.phrase) === normalizeDiagnosis(gold.phrase);
+
+export const scoreDifferential = (final: FinalDiagnosis[], gold: GoldDiagnosis[]) => {
+  const recall: Record<string, number> = {};
+  for (const k of RECALL_AT) {
+    const top = final.slice(0, k);
+    const found = gold.filter(g => top.some(d => findsGold(d, g))).length;
+    recall[`@${k}`] = gold.length > 0 ? found / gold.length : 1;
+  }
+
+  // Mapping is judged only where the proposal named a gold diagnosis, so a bad
+  // differential doesn't count against the mapper
+  let matched = 0;
+  let correct = 0;
+  for (const diagnosis of final) {
+    const goldMatch = gold.find(g => normalizeDiagnosis(diagnosis.phrase) === normalizeDiagnosis(g.phrase));
+    if (!goldMatch) continue;
+    matched++;
+    if (diagnosis.chosen_snomed_ids[0] === goldMatch.snomed_id) correct++;
+  }
+  return { recall, mapping: { matched, correct } };
+};
+
+/** Runs one vignette through the on-device backend built around `lm`. */
+export const runVignette = async (vignette: Vignette, lm: CactusLMHandle, modelName: string): Promise<VignetteResult> => {
+  const backend = createOnDeviceBackend(createSingleModelRouter(lm, modelName));
+  try {
+    const history = vignette.transcript.map(content => ({ role: 'user' as const, content }));
+    const data = await backend.chatExtract(history);
+    if (!data) throw new Error('Extraction returned nothing');
+    const proposals: ProposedDiagnosis[] = await backend.proposeDiagnoses(data);
+    const phrases = proposals.map(p => p.phrase);
+    const final = phrases.length > 0 ? await backend.explainAndMap(data, phrases) : [];
+    return {
+      id: vignette.id,
+      extraction: scoreExtraction(data, vignette.gold),
+      proposed: phrases,
+      ...scoreDifferential(final, vignette.gold.diagnoses),
+    };
+  } catch (error) {
+    return {
+      id: vignette.id,
+      extraction: {},
+      proposed: [],
+      recall: Object.fromEntries(RECALL_AT.map(k => [`@${k}`, 0])),
+      mapping: { matched: 0, correct: 0 },
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/** Averages per-vignette scores. Extraction fields are averaged over the vignettes that annotate them. */
+export const summarize = (results: VignetteResult[]): Metrics => {
+  const fields = Array.from(new Set(results.flatMap(r => Object.keys(r.extraction)))).sort();
+  const matched = results.reduce((sum, r) => sum + r.mapping.matched, 0);
+  const correct = results.reduce((sum, r) => sum + r.mapping.correct, 0);
+  return {
+    vignettes: results.length,
+    failures: results.filter(r => r.error).length,
+    extraction: Object.fromEntries(fields.map(field => [
+      field,
+      mean(results.filter(r => field in r.extraction).map(r => r.extraction[field])),
+    ])),
+    recall: Object.fromEntries(RECALL_AT.map(k => [`@${k}`, mean(results.map(r => r.recall[`@${k}`]))])),
+    mapping_precision: matched > 0 ? correct / matched : null,
+  };
+};
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+const flatten = (metrics: Metrics): Record<string, number | null> => ({
+  ...Object.fromEntries(Object.entries(metrics.extraction).map(([k, v]) => [`extraction.${k}`, v])),
+  ...Object.fromEntries(Object.entries(metrics.recall).map(([k, v]) => [`recall${k}`, v])),
+  mapping_precision: metrics.mapping_precision,
+  failures: metrics.failures,
+});
+
+/** Every metric in either run with its change. Metrics missing from one side have a null delta. */
+export const diffMetrics = (baseline: Metrics, current: Metrics): MetricDelta[] => {
+  const before = flatten(baseline);
+  const after = flatten(current);
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort().map(metric => {
+    const b = before[metric] ?? null;
+    const c = after[metric] ?? null;
+    return { metric, baseline: b, current: c, delta: b !== null && c !== null ? c - b : null };
+  });
+};
@@ -0,0 +1,47 @@
+import type { Message } from 'cactus-react-native';
+import type { CactusLMHandle } from '@/services/onDevice';
+import { createFakeLM } from '@/services/replayLM';
+
+// A deterministic stand-in for useCactusLM, so the evaluation runs on machines
+// without a model. Each vignette scripts the reply for each kind of prompt; a
+// list of replies is served in turn (and repeats from the start), which is how
+// a vignette scripts repair rounds or disagreeing samples.
+
+export type PromptKind = 'extract' | 'propose' | 'explain';
+
+export type Script = Partial<Record<PromptKind, string | string[]>>;
+
+/** Which pipeline stage a prompt belongs to, from the stage's own instructions. */
+export const classifyPrompt = (messages: Message[]): PromptKind | null => {
+  const text = messages.map(m => m.content ?? '').join('\n');
+  if (text.includes('Match these diagnoses to SNOMED codes')) return 'explain';
+  if (text.includes('potential diagnoses')) return 'propose';
+  if (text.includes('Extract patient details')) return 'extract';
+  return null;
+};
+
+// Hashed bag of words: crude, but deterministic and it puts related wording close together
+const EMBEDDING_DIM = 64;
+export const hashEmbedding = (text: string): number[] => {
+  const vector = new Array(EMBEDDING_DIM).fill(0);
+  for (const token of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (let i = 0; i < token.length; i++) hash = (hash * 31 + token.charCodeAt(i)) | 0;
+    vector[Math.abs(hash) % EMBEDDING_DIM] += 1;
+  }
+  return vector;
+};
+
+/** A fake LM that replies from a vignette's script. Unscripted prompts get an empty reply. */
+export const createScriptedLM = (script: Script): CactusLMHandle => {
+  const turns = new Map<PromptKind, number>();
+  return createFakeLM(async ({ messages }) => {
+    const kind = classifyPrompt(messages);
+    const reply = kind ? script[kind] : undefined;
+    if (reply === undefined || !kind) return '';
+    if (typeof reply === 'string') return reply;
+    const turn = turns.get(kind) ?? 0;
+    turns.set(kind, turn + 1);
+    return reply[turn % reply.length] ?? '';
+  }, async text => hashEmbedding(text));
+};
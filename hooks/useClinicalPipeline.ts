@@ -1,260 +1,172 @@
-import { useCactusLM, type Message } from 'cactus-react-native';
-import { jsonrepair } from 'jsonrepair';
-import { useState } from 'react';
-import { FinalDiagnosis, PatientData } from '../types/pipeline';
-
-// Load the local SNOMED subset directly (no database)
-const snomedSubset: { id: string; term: string }[] = require('@/assets/snomed_subset.json');
+import { useCactusLM } from 'cactus-react-native';
+import { useEffect, useRef, useState } from 'react';
+import { PipelineConfig } from '@/constants/config';
+import { createHybridBackend } from '@/services/hybrid';
+import { useModels } from '@/hooks/useModels';
+import { createModelRouter, isModelMissingError, StageModel } from '@/services/modelRouter';
+import { createOnDeviceBackend } from '@/services/onDevice';
+import { createRemoteBackend } from '@/services/pipeline';
+import { createRecordingLM } from '@/services/replayLM';
+import { isAbortError } from '@/utils/abort';
+import { appendFixture } from '@/utils/fixtureLog';
+import { mergePatientData } from '@/utils/patientData';
+import { withRedFlags } from '@/utils/redFlags';
+import { ChatMessage, ClinicalBackend, FinalDiagnosis, InferenceBackendKind, ModelRole, PatientData, ProposedDiagnosis, StageOptions } from '../types/pipeline';
 
 export type PipelineStage = 'idle' | 'extracting' | 'proposing' | 'mapping' | 'explaining';
 
+const remoteBackend = createRemoteBackend();
+
+// Roles each backend runs on the device. Hybrid extracts locally and only falls
+// back to the device for the rest, so it needs just the extraction model; the
+// fallback needs the others too and is turned off without them.
+const LOCAL_ROLES: Record<InferenceBackendKind, ModelRole[]> = {
+  'on-device': PipelineConfig.modelRoles,
+  hybrid: ['extraction'],
+  remote: [],
+};
+const FALLBACK_ROLES: Record<InferenceBackendKind, ModelRole[]> = {
+  'on-device': [],
+  hybrid: ['reasoning', 'embedding'],
+  remote: [],
+};
+
+const missingFor = (roles: ModelRole[], assignments: Record<ModelRole, string>, isDownloaded: (slug: string) => boolean) =>
+  Array.from(new Set(roles.map(role => assignments[role]))).filter(name => !isDownloaded(name));
+
 export function useClinicalPipeline() {
-  // Using 'qwen3-1.7' for both completion and embedding
-  const cactusLM = useCactusLM({ model: 'lfm2-vl-1.6b' });
-  
+  // A model per role, assigned in config and on the Models screen. Hooks for
+  // roles that share a model are never used; the router hands out one handle.
+  const { assignments, store: models } = useModels();
+  const extractionLM = useCactusLM({ model: assignments.extraction });
+  const reasoningLM = useCactusLM({ model: assignments.reasoning });
+  const embeddingLM = useCactusLM({ model: assignments.embedding });
+
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stage, setStage] = useState<PipelineStage>('idle');
-
-  // Ensure models are downloaded before usage
-  const ensureModelDownloaded = async (lm: ReturnType<typeof useCactusLM>, modelName: string) => {
-     // Check if model exists in file system via the hook's exposed state
-     // Note: useCactusLM exposes isDownloaded. 
-     // If it's false, we try to download.
-     if (!lm.isDownloaded && !lm.isDownloading) {
-        console.log(`Downloading ${modelName}...`);
-        try {
-            await lm.download();
-            console.log(`Downloaded ${modelName}`);
-        } catch (e) {
-            console.error(`Failed to download ${modelName}`, e);
-            throw e;
-        }
-     }
+  // Raw model output of the stage currently running, cleared when it finishes
+  const [streamingText, setStreamingText] = useState('');
+  const [backendKind, setBackendKind] = useState<InferenceBackendKind>(PipelineConfig.defaultBackend);
+  // Controller of the current run; replaced by startRun() and aborted by cancel()
+  const runRef = useRef<AbortController | null>(null);
+  // Model currently loaded by the router, kept across the per-render rebuilds
+  const residentModelRef = useRef<string | null>(null);
+
+  // Leaving the screen cancels whatever is still running
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  // Rebuilt each render so the on-device backend sees the latest download state.
+  // useCactusLM only checks the disk when its model changes, so downloads made on
+  // the Models screen are tracked by the model store instead.
+  const stageModel = (role: ModelRole, lm: typeof extractionLM): StageModel => {
+    const name = assignments[role];
+    const ready = { ...lm, isDownloaded: models.isDownloaded(name) };
+    return { name, lm: PipelineConfig.recordCompletions ? createRecordingLM(ready, appendFixture) : ready };
   };
-
-  // Helper to safely parse JSON, or return null if completely failed
-  const parseJSON = (text: string) => {
-    console.log("Raw LLM Output:", text); // Debug logging
-    if (!text) return null;
-    
-    let cleanedText = text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
-    cleanedText = cleanedText.replace(/```json/g, '').replace(/```/g, '').trim();
-    cleanedText = cleanedText.replace(/<\|im_end\|>/g, '').trim();
-    cleanedText = cleanedText.replace(/\/\/.*$/gm, '');
-    cleanedText = cleanedText.replace(/\*\*/g, '');
-    
-    try {
-      return JSON.parse(jsonrepair(cleanedText));
-    } catch (e) {
-      // Fallback strategies (Array or Object extraction)
-      try {
-          const firstBracket = cleanedText.indexOf('[');
-          const lastBracket = cleanedText.lastIndexOf(']');
-          if (firstBracket !== -1 && lastBracket > firstBracket) {
-             return JSON.parse(jsonrepair(cleanedText.substring(firstBracket, lastBracket + 1)));
-          }
-          const firstBrace = cleanedText.indexOf('{');
-          const lastBrace = cleanedText.lastIndexOf('}');
-          if (firstBrace !== -1 && lastBrace > firstBrace) {
-              return JSON.parse(jsonrepair(cleanedText.substring(firstBrace, lastBrace + 1)));
-          }
-      } catch (e2) {}
-      return null;
-    }
+  const router = createModelRouter({
+    extraction: stageModel('extraction', extractionLM),
+    reasoning: stageModel('reasoning', reasoningLM),
+    embedding: stageModel('embedding', embeddingLM),
+  }, residentModelRef);
+  // Screens check these before a run and send the user to the Models screen
+  const missingModels = missingFor(LOCAL_ROLES[backendKind], assignments, models.isDownloaded);
+  const missingFallbackModels = missingFor(FALLBACK_ROLES[backendKind], assignments, models.isDownloaded)
+    .filter(name => !missingModels.includes(name));
+
+  const onDeviceBackend = createOnDeviceBackend(router);
+  const backend: ClinicalBackend =
+    backendKind === 'remote' ? remoteBackend :
+    backendKind === 'hybrid' ? createHybridBackend(onDeviceBackend, remoteBackend, { fallback: missingFallbackModels.length === 0 }) :
+    onDeviceBackend;
+
+  // Starts a new run, cancelling any previous one. Callers pass the returned signal
+  // to every stage and must check signal.aborted before applying results.
+  const startRun = (): AbortSignal => {
+    runRef.current?.abort();
+    const controller = new AbortController();
+    runRef.current = controller;
+    setError(null);
+    return controller.signal;
   };
 
-  const chatExtract = async (history: Message[]): Promise<PatientData | null> => {
-    setLoading(true);
-    setStage('extracting');
-    try {
-      await ensureModelDownloaded(cactusLM, "qwen3-1.7");
-      
-      // Simplified prompt: Ask for a simple string summary first, then we can try to parse or just use it as "free_text_summary"
-      // For robust extracted fields, we still try JSON but make it very permissive.
-      const systemPrompt: Message = {
-        role: 'system',
-        content: `Extract patient details. Return JSON: {"age": number, "sex": "string", "symptoms": [{"name": "string", "location": "string"}], "summary": "string"}`
-      };
-
-      const messages = [systemPrompt, ...history];
-      const response = await cactusLM.complete({ 
-        messages, 
-        options: { temperature: 0.1 } 
-      });
-      
-      // Attempt parse
-      const parsed = parseJSON(response.response);
-      if (parsed) return parsed;
-      
-      // Fallback: Construct a minimal PatientData object from the raw text if JSON failed
-      return {
-        symptoms: [],
-        past_medical_history: [],
-        medications: [],
-        red_flags: [],
-        free_text_summary: response.response.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
-      };
-
-    } catch (err) {
-      console.error("Extraction pipeline error:", err);
-      setError('Extraction failed');
-      return null;
-    } finally {
-      setLoading(false);
-      setStage('idle');
-    }
+  const cancel = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setLoading(false);
+    setStage('idle');
+    setStreamingText('');
   };
 
-  const proposeDiagnoses = async (data: PatientData): Promise<string[]> => {
+  // Wraps a backend call with the loading/stage bookkeeping shared by every stage
+  const runStage = async <T,>(nextStage: PipelineStage, failure: T, errorMessage: string, signal: AbortSignal | undefined, task: (options: StageOptions) => Promise<T>): Promise<T> => {
+    if (signal?.aborted) return failure;
     setLoading(true);
-    setStage('proposing');
+    setStage(nextStage);
+    setStreamingText('');
     try {
-      // Extremely simple prompt: Ask for a comma-separated string. 
-      // JSON is brittle with small models. Text processing is robust.
-      const systemPrompt: Message = {
-        role: 'system',
-        content: `Based on the patient data, list 3 potential diagnoses. Separate them with commas. Do not use numbers or bullet points.`
-      };
-      
-      const userPrompt: Message = {
-        role: 'user',
-        content: `Patient Data: ${JSON.stringify(data)}`
-      };
-
-      const response = await cactusLM.complete({ 
-        messages: [systemPrompt, userPrompt], 
-        options: { temperature: 0.3 } 
+      return await task({
+        signal,
+        onToken: token => {
+          if (!signal?.aborted) setStreamingText(prev => prev + token);
+        }
       });
-      
-      let text = response.response.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
-      // Remove potential tokens like <|im_end|> which might leak
-      text = text.replace(/<\|im_end\|>/g, '').trim();
-      // Remove potential markdown or "Here are..." prefixes
-      text = text.replace(/^.*?:/m, '').trim(); 
-
-      // Split by comma or newline
-      // The user provided output shows the model sometimes returns descriptions with colons.
-      // e.g. "Angina Pectoris: description..."
-      // We want to keep just the diagnosis name for SNOMED mapping.
-      
-      const diagnoses = text.split(/,|\n/).map(d => d.trim()).filter(d => d.length > 3);
-      
-      const cleanedDiagnoses = diagnoses.map(d => {
-         // Remove "1.", "-", etc
-         let clean = d.replace(/^[\d-]+\.?\s*/, '').trim();
-         // Remove everything after a colon (often the explanation)
-         // e.g. "Angina Pectoris: This is a..." -> "Angina Pectoris"
-         clean = clean.split(':')[0].trim();
-         // Remove trailing " or ' if present
-         clean = clean.replace(/['"]+$/, '');
-         return clean;
-      }).filter(d => d.length > 0);
-      
-      console.log("Propose Diagnoses (Text Mode):", cleanedDiagnoses);
-      return cleanedDiagnoses.slice(0, 3);
-
     } catch (err) {
-      setError('Diagnosis proposal failed');
-      return [];
+      if (isAbortError(err) || signal?.aborted) return failure;
+      console.error(`${errorMessage} (${backend.kind}):`, err);
+      setError(isModelMissingError(err) ? `${(err as Error).message}. Download it on the Models screen.` : errorMessage);
+      return failure;
     } finally {
-      setLoading(false);
-      setStage('idle');
+      // After a cancel the state was already reset, possibly by a newer run
+      if (!signal?.aborted) {
+        setLoading(false);
+        setStage('idle');
+        setStreamingText('');
+      }
     }
   };
 
-  // Simple local search against the JSON subset
-  const searchSnomedLocal = (query: string) => {
-    const lowerQuery = query.toLowerCase();
-    return snomedSubset.filter(s => s.term.toLowerCase().includes(lowerQuery));
+  const chatExtract = (history: ChatMessage[], signal?: AbortSignal): Promise<PatientData | null> =>
+    runStage('extracting', null, 'Extraction failed', signal, options => backend.chatExtract(history, options));
+
+  // Extracts only from turns after `fromIndex` and merges the result into `current`.
+  // Pipeline bubbles are dropped so the model never reads its own earlier output.
+  // Returns `current` untouched when there is nothing new, and null when extraction fails.
+  const extractIncremental = async (messages: ChatMessage[], current: PatientData | null, fromIndex: number, signal?: AbortSignal): Promise<PatientData | null> => {
+    const turns = messages
+      .slice(fromIndex)
+      .filter(m => !m.system)
+      .map(({ role, content }) => ({ role, content }));
+    if (!turns.some(m => m.role === 'user')) return current;
+
+    const update = await chatExtract(turns, signal);
+    if (!update) return null;
+
+    // Red flags come from the rule engine, not the model, and see the whole transcript
+    const transcript = messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+    return withRedFlags(mergePatientData(current, update), transcript);
   };
 
-  const explainAndMap = async (data: PatientData, diagnoses: string[]): Promise<FinalDiagnosis[]> => {
-    setLoading(true);
-    setStage('mapping');
-    try {
-      // 1. Map candidates locally first using the JSON subset
-      const mappedCandidates = diagnoses.map(diagnosis => {
-         const candidates = searchSnomedLocal(diagnosis);
-         return { phrase: diagnosis, candidates };
-      });
-
-      console.log("Mapped SNOMED Terms (Hallucinated -> JSON Subset):", JSON.stringify(mappedCandidates, null, 2));
-
-      let finalDiagnoses: FinalDiagnosis[] = [];
-
-      try {
-          const prompt: Message = {
-            role: 'user',
-            content: `
-    Match these diagnoses to SNOMED codes.
-    Diagnoses: ${diagnoses.join(', ')}
-
-    Return valid JSON array only.
-    Example:
-    [
-      { "phrase": "Pneumonia", "chosen_snomed_ids": ["233604007"], "confidence": 0.9, "explanation": "Matched based on symptoms." }
-    ]`
-          };
+  const proposeDiagnoses = (data: PatientData, signal?: AbortSignal): Promise<ProposedDiagnosis[]> =>
+    runStage('proposing', [], 'Diagnosis proposal failed', signal, options => backend.proposeDiagnoses(data, options));
 
-          // Inject context if missing
-          const contextMsg: Message = {
-             role: 'user',
-             content: `Context Data:
-    Patient: ${JSON.stringify(data)}`
-          };
-
-          const response = await cactusLM.complete({ 
-            messages: [contextMsg, prompt], 
-            options: { temperature: 0.3 } // Lower temp for structure
-          });
-          
-          const parsed = parseJSON(response.response);
-          if (parsed && Array.isArray(parsed) && parsed.length > 0) {
-            finalDiagnoses = parsed;
-          } else {
-            console.warn("LLM explanation JSON invalid or empty, falling back to manual mapping.");
-          }
-      } catch (llmErr) {
-          console.warn("LLM explanation failed:", llmErr);
-      }
-      
-      if (finalDiagnoses.length === 0) {
-        // Fallback: Construct results directly from mapped candidates
-        finalDiagnoses = mappedCandidates.map(item => {
-            // Get top candidate
-            const best = item.candidates.length > 0 ? item.candidates[0] : null;
-            return {
-                phrase: item.phrase,
-                chosen_snomed_ids: best ? [best.id] : [],
-                confidence: best ? 0.8 : 0, 
-                explanation: best 
-                  ? `Mapped to SNOMED term: "${best.term}"` 
-                  : "No matching SNOMED concept found in local subset."
-            };
-        });
-      }
-
-      console.log("Final Mapped & Explained Diagnoses:", JSON.stringify(finalDiagnoses, null, 2));
-      return finalDiagnoses;
-
-    } catch (err) {
-      console.error("Explanation/Mapping pipeline error:", err);
-      setError('Explanation failed');
-      return [];
-    } finally {
-      setLoading(false);
-      setStage('idle');
-    }
-  };
+  const explainAndMap = (data: PatientData, diagnoses: string[], signal?: AbortSignal): Promise<FinalDiagnosis[]> =>
+    runStage('mapping', [], 'Explanation failed', signal, options => backend.explainAndMap(data, diagnoses, options));
 
   return {
-    cactusLM,
-    // embeddingLM, // Removed, re-using cactusLM
+    assignments,
+    missingModels,
+    missingFallbackModels,
+    backendKind,
+    setBackendKind,
     loading,
     error,
     stage,
+    streamingText,
+    startRun,
+    cancel,
     chatExtract,
+    extractIncremental,
     proposeDiagnoses,
     explainAndMap
   };
@@ -0,0 +1,18 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { modelStore } from '@/services/models';
+
+// Subscribes a component to the model store and loads the catalogue the first
+// time anything asks for it.
+let refreshed = false;
+
+export function useModels() {
+  const state = useSyncExternalStore(modelStore.subscribe, modelStore.getState);
+
+  useEffect(() => {
+    if (refreshed) return;
+    refreshed = true;
+    modelStore.refresh();
+  }, []);
+
+  return { ...state, store: modelStore };
+}
@@ -8,8 +8,189 @@ csv.field_size_limit(sys.maxsize)
 
 # Config
 SNOMED_DESC_PATH = "public/uk_sct2cl_41.2.0_20251119000001Z/SnomedCT_InternationalRF2_PRODUCTION_20250801T120000Z/Snapshot/Terminology/sct2_Description_Snapshot-en_INT_20250801.txt"
+SNOMED_REL_PATH = "public/uk_sct2cl_41.2.0_20251119000001Z/SnomedCT_InternationalRF2_PRODUCTION_20250801T120000Z/Snapshot/Terminology/sct2_Relationship_Snapshot_INT_20250801.txt"
+SNOMED_CONCEPT_PATH = "public/uk_sct2cl_41.2.0_20251119000001Z/SnomedCT_InternationalRF2_PRODUCTION_20250801T120000Z/Snapshot/Terminology/sct2_Concept_Snapshot_INT_20250801.txt"
+SNOMED_LANG_PATH = "public/uk_sct2cl_41.2.0_20251119000001Z/SnomedCT_InternationalRF2_PRODUCTION_20250801T120000Z/Snapshot/Refset/Language/der2_cRefset_LanguageSnapshot-en_INT_20250801.txt"
+OPCS_MAP_PATH = "public/xder2_iisssciRefset_OPCS-4.8ExtendedMapFull_GB_20210324.txt"
+ICD10_MAP_PATH = "public/uk_sct2cl_41.2.0_20251119000001Z/SnomedCT_InternationalRF2_PRODUCTION_20250801T120000Z/Snapshot/Refset/Map/der2_iisssccRefset_ExtendedMapSnapshot_INT_20250801.txt"
 DB_OUTPUT_PATH = "assets/snomed.db"
 
+# Description types and the language refset that decides which synonym is preferred.
+# GB English; use '900000000000509007' for US English.
+FSN_TYPE_ID = '900000000000003001'
+SYNONYM_TYPE_ID = '900000000000013009'
+LANGUAGE_REFSET_ID = '900000000000508004'
+PREFERRED = '900000000000548007'
+ACCEPTABLE = '900000000000549004'
+
+# ICD-10 complex map refset; the extended map file can carry other refsets
+ICD10_REFSET_ID = '447562003'
+
+# Relationship types we keep: is-a for the hierarchy plus the attributes the app shows
+IS_A = '116680003'
+RELATIONSHIP_TYPES = {
+    IS_A,
+    '363698007',  # Finding site
+    '116676008',  # Associated morphology
+    '246075003',  # Causative agent
+    '363714003',  # Interprets
+    '405813007',  # Procedure site - Direct
+    '260686004',  # Method
+}
+
+def read_acceptability():
+    # Columns in Language refset files:
+    # id	effectiveTime	active	moduleId	refsetId	referencedComponentId	acceptabilityId
+    if not os.path.exists(SNOMED_LANG_PATH):
+        print(f"Warning: Language refset not found at {SNOMED_LANG_PATH}, preferred terms will be guessed")
+        return {}
+
+    names = {PREFERRED: 'preferred', ACCEPTABLE: 'acceptable'}
+    acceptability = {}
+    with open(SNOMED_LANG_PATH, 'r', encoding='utf-8') as f:
+        reader = csv.reader(f, delimiter='\t')
+        next(reader) # Skip header
+
+        for row in reader:
+            if row[2] == '1' and row[4] == LANGUAGE_REFSET_ID:
+                acceptability[row[5]] = names.get(row[6])
+    print(f"Read acceptability for {len(acceptability)} descriptions")
+    return acceptability
+
+def import_concepts(cursor):
+    # Columns in Concept File:
+    # id	effectiveTime	active	moduleId	definitionStatusId
+    cursor.execute('''
+        CREATE TABLE concepts (
+            id TEXT PRIMARY KEY,
+            active INTEGER,
+            fsn TEXT,
+            preferredTerm TEXT
+        )
+    ''')
+
+    if os.path.exists(SNOMED_CONCEPT_PATH):
+        print("Reading SNOMED concepts...")
+        with open(SNOMED_CONCEPT_PATH, 'r', encoding='utf-8') as f:
+            reader = csv.reader(f, delimiter='\t')
+            next(reader) # Skip header
+            cursor.executemany('INSERT INTO concepts (id, active) VALUES (?, ?)',
+                               ((row[0], int(row[2])) for row in reader))
+    else:
+        # Without the concept file, any concept with an active description counts as active
+        print(f"Warning: Concept file not found at {SNOMED_CONCEPT_PATH}, deriving concepts from descriptions")
+        cursor.execute('INSERT INTO concepts (id, active) SELECT DISTINCT conceptId, 1 FROM descriptions')
+
+    # Preferred acceptability in the language refset wins; otherwise the shortest
+    # term, so a concept always has something to show.
+    rank = "CASE d.acceptability WHEN 'preferred' THEN 0 WHEN 'acceptable' THEN 1 ELSE 2 END"
+    cursor.execute(f'''
+        UPDATE concepts SET
+            fsn = (SELECT d.term FROM descriptions d
+                    WHERE d.conceptId = concepts.id AND d.typeId = ?
+                    ORDER BY {rank}, length(d.term) LIMIT 1),
+            preferredTerm = (SELECT d.term FROM descriptions d
+                    WHERE d.conceptId = concepts.id AND d.typeId = ?
+                    ORDER BY {rank}, length(d.term) LIMIT 1)
+    ''', (FSN_TYPE_ID, SYNONYM_TYPE_ID))
+    count = cursor.execute('SELECT COUNT(*) FROM concepts WHERE active = 1').fetchone()[0]
+    print(f"Imported {count} active concepts")
+
+def import_relationships(cursor):
+    # Columns in Relationship File:
+    # id	effectiveTime	active	moduleId	sourceId	destinationId	relationshipGroup	typeId	characteristicTypeId	modifierId
+    if not os.path.exists(SNOMED_REL_PATH):
+        print(f"Warning: Relationship file not found at {SNOMED_REL_PATH}, skipping hierarchy")
+        return
+
+    cursor.execute('''
+        CREATE TABLE relationships (
+            sourceId TEXT,
+            destinationId TEXT,
+            typeId TEXT,
+            relationshipGroup INTEGER
+        )
+    ''')
+
+    print("Reading SNOMED relationships...")
+
+    count = 0
+    batch = []
+    BATCH_SIZE = 10000
+
+    with open(SNOMED_REL_PATH, 'r', encoding='utf-8') as f:
+        reader = csv.reader(f, delimiter='\t')
+        next(reader) # Skip header
+
+        for row in reader:
+            if row[2] == '1' and row[7] in RELATIONSHIP_TYPES:
+                batch.append((row[4], row[5], row[7], int(row[6])))
+                count += 1
+
+            if len(batch) >= BATCH_SIZE:
+                cursor.executemany('INSERT INTO relationships (sourceId, destinationId, typeId, relationshipGroup) VALUES (?, ?, ?, ?)', batch)
+                batch = []
+
+        if batch:
+            cursor.executemany('INSERT INTO relationships (sourceId, destinationId, typeId, relationshipGroup) VALUES (?, ?, ?, ?)', batch)
+
+    # Parents are looked up by source, children by destination
+    cursor.execute('CREATE INDEX idx_rel_source ON relationships(sourceId, typeId)')
+    cursor.execute('CREATE INDEX idx_rel_destination ON relationships(destinationId, typeId)')
+    print(f"Imported {count} active relationships")
+
+def import_extended_map(cursor, path, table, refset_id=None, last_column=('mapBlock', 'INTEGER')):
+    # Columns in Extended Map refset files:
+    # id	effectiveTime	active	moduleId	refsetId	referencedComponentId	mapGroup	mapPriority	mapRule	mapAdvice	mapTarget	correlationId	<last>
+    # The last column depends on the refset: mapBlock in the UK OPCS-4 complex map,
+    # mapCategoryId (a concept id saying how well the source could be classified)
+    # in the ICD-10 extended map.
+    if not os.path.exists(path):
+        print(f"Warning: Map file not found at {path}, skipping {table}")
+        return
+    last_name, last_type = last_column
+
+    print(f"Reading extended map into {table}...")
+
+    # Full files hold every version of every row, so keep the latest per id
+    # and only then drop the ones whose latest state is inactive.
+    latest = {}
+    with open(path, 'r', encoding='utf-8') as f:
+        reader = csv.reader(f, delimiter='\t')
+        next(reader) # Skip header
+
+        for row in reader:
+            if refset_id and row[4] != refset_id:
+                continue
+            current = latest.get(row[0])
+            if current is None or row[1] > current[1]:
+                latest[row[0]] = row
+
+    cursor.execute(f'''
+        CREATE TABLE {table} (
+            conceptId TEXT,
+            mapGroup INTEGER,
+            mapPriority INTEGER,
+            mapRule TEXT,
+            mapAdvice TEXT,
+            mapTarget TEXT,
+            {last_name} {last_type}
+        )
+    ''')
+
+    def last_value(row):
+        if len(row) <= 12 or not row[12]:
+            return None
+        return int(row[12]) if last_type == 'INTEGER' else row[12]
+
+    rows = [
+        (row[5], int(row[6]), int(row[7]), row[8], row[9], row[10], last_value(row))
+        for row in latest.values() if row[2] == '1'
+    ]
+    cursor.executemany(f'INSERT INTO {table} (conceptId, mapGroup, mapPriority, mapRule, mapAdvice, mapTarget, {last_name}) VALUES (?, ?, ?, ?, ?, ?, ?)', rows)
+    cursor.execute(f'CREATE INDEX idx_{table}_concept ON {table}(conceptId, mapGroup, mapPriority)')
+    print(f"Imported {len(rows)} active map rows into {table}")
+
 def convert_to_sqlite():
     if not os.path.exists(SNOMED_DESC_PATH):
         print(f"Error: Source file not found at {SNOMED_DESC_PATH}")
@@ -31,7 +212,10 @@ def convert_to_sqlite():
             id TEXT PRIMARY KEY,
             conceptId TEXT,
             term TEXT,
-            active INTEGER
+            active INTEGER,
+            typeId TEXT,
+            languageCode TEXT,
+            acceptability TEXT
         )
     ''')
     
@@ -39,6 +223,8 @@ def convert_to_sqlite():
     cursor.execute('CREATE INDEX idx_term ON descriptions(term)')
     cursor.execute('CREATE INDEX idx_concept ON descriptions(conceptId)')
 
+    acceptability = read_acceptability()
+
     print("Reading SNOMED file...")
     
     count = 0
@@ -50,21 +236,41 @@ def convert_to_sqlite():
         next(reader) # Skip header
 
         for row in reader:
-            # row[0]=id, row[2]=active, row[4]=conceptId, row[7]=term
-            # Only import active concepts (active=1)
+            # row[0]=id, row[2]=active, row[4]=conceptId, row[5]=languageCode, row[6]=typeId, row[7]=term
+            # Only import active descriptions (active=1)
             if row[2] == '1':
-                batch.append((row[0], row[4], row[7], 1))
+                batch.append((row[0], row[4], row[7], 1, row[6], row[5], acceptability.get(row[0])))
                 count += 1
             
             if len(batch) >= BATCH_SIZE:
-                cursor.executemany('INSERT INTO descriptions (id, conceptId, term, active) VALUES (?, ?, ?, ?)', batch)
+                cursor.executemany('INSERT INTO descriptions (id, conceptId, term, active, typeId, languageCode, acceptability) VALUES (?, ?, ?, ?, ?, ?, ?)', batch)
                 batch = []
                 if count % 100000 == 0:
                     print(f"Processed {count} rows...")
 
         # Insert remaining
         if batch:
-            cursor.executemany('INSERT INTO descriptions (id, conceptId, term, active) VALUES (?, ?, ?, ?)', batch)
+            cursor.executemany('INSERT INTO descriptions (id, conceptId, term, active, typeId, languageCode, acceptability) VALUES (?, ?, ?, ?, ?, ?, ?)', batch)
+
+    import_concepts(cursor)
+    import_relationships(cursor)
+    import_extended_map(cursor, OPCS_MAP_PATH, 'opcs_map')
+    import_extended_map(cursor, ICD10_MAP_PATH, 'icd10_map', ICD10_REFSET_ID, last_column=('mapCategoryId', 'TEXT'))
+
+    # Full-text index over the terms. External content keeps a single copy of the
+    # text; the porter tokenizer folds plurals and prefix indexes speed up "ches*" queries.
+    print("Building FTS5 index...")
+    cursor.execute('''
+        CREATE VIRTUAL TABLE descriptions_fts USING fts5(
+            term,
+            content='descriptions',
+            content_rowid='rowid',
+            tokenize='porter unicode61',
+            prefix='2 3'
+        )
+    ''')
+    cursor.execute("INSERT INTO descriptions_fts(descriptions_fts) VALUES('rebuild')")
+    cursor.execute("INSERT INTO descriptions_fts(descriptions_fts) VALUES('optimize')")
 
     conn.commit()
     conn.close()
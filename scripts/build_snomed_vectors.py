@@ -0,0 +1,161 @@
+import argparse
+import math
+import sqlite3
+import sys
+
+import numpy as np
+
+# Adds an IVF (inverted file) vector index over the active descriptions in
+# snomed.db. Run after build_snomed_db.py.
+#
+# Layout:
+#   embedding_meta       key/value: model, embedder, dim, lists, count
+#   ivf_centroids        list_id -> float32 centroid (L2-normalised)
+#   description_vectors  descriptions.rowid -> list_id, int8 vector, scale
+#
+# Vectors are L2-normalised and quantised to int8 with one scale per vector
+# (v ~= q * scale), so cosine similarity is a dot product and each vector costs
+# dim + 4 bytes. The app only scans the few lists closest to the query, one
+# list at a time, which keeps memory bounded on phones.
+#
+# The vectors must come from the model the app embeds queries with, or cosine
+# similarity between a query and the index means nothing. That model is a Cactus
+# model and only runs on the device, so the vectors are made there: "Export SNOMED
+# vectors" on the Models screen (development builds) embeds every active
+# description with the assigned embedding model and shares snomed-vectors.db,
+# which this script reads. The model slug stamped there is copied to
+# embedding_meta, and the app ignores the index when it differs from the
+# configured embedding model.
+
+DB_PATH = "assets/snomed.db"
+TRAIN_SAMPLE = 100_000
+KMEANS_ITERATIONS = 20
+# Written to embedding_meta; indexes built from any other source are ignored by the app
+EMBEDDER = "cactus"
+
+
+def normalize(vectors):
+    norms = np.linalg.norm(vectors, axis=1, keepdims=True)
+    norms[norms == 0] = 1
+    return vectors / norms
+
+
+def train_centroids(sample, lists, seed=0):
+    rng = np.random.default_rng(seed)
+    centroids = sample[rng.choice(len(sample), size=lists, replace=False)]
+    for iteration in range(KMEANS_ITERATIONS):
+        assignment = np.argmax(sample @ centroids.T, axis=1)
+        for i in range(lists):
+            members = sample[assignment == i]
+            # Re-seed empty lists so every list stays in use
+            centroids[i] = members.mean(axis=0) if len(members) else sample[rng.integers(len(sample))]
+        centroids = normalize(centroids)
+        print(f"k-means iteration {iteration + 1}/{KMEANS_ITERATIONS}")
+    return centroids
+
+
+def quantize(vectors):
+    scales = np.abs(vectors).max(axis=1) / 127.0
+    scales[scales == 0] = 1
+    codes = np.clip(np.round(vectors / scales[:, None]), -127, 127).astype(np.int8)
+    return codes, scales.astype(np.float32)
+
+
+def read_vectors(vectors_conn, ids):
+    rows = vectors_conn.execute(
+        f"SELECT description_id, vector FROM vectors WHERE description_id IN ({','.join('?' * len(ids))})", ids
+    ).fetchall()
+    found = dict(rows)
+    return normalize(np.stack([np.frombuffer(found[i], dtype="<f4") for i in ids]))
+
+
+def build_index(db_path, vectors_path, lists, batch_size):
+    vectors_conn = sqlite3.connect(vectors_path)
+    meta = dict(vectors_conn.execute("SELECT key, value FROM meta").fetchall())
+    model_id = meta.get("model")
+    if not model_id:
+        sys.exit(f"{vectors_path} has no model stamp; export it again from the app")
+
+    conn = sqlite3.connect(db_path)
+    cursor = conn.cursor()
+
+    rowids = dict(cursor.execute("SELECT id, rowid FROM descriptions WHERE active = 1").fetchall())
+    if not rowids:
+        print("Error: no active descriptions, run build_snomed_db.py first")
+        return
+    embedded = [row[0] for row in vectors_conn.execute("SELECT description_id FROM vectors ORDER BY description_id")]
+    ids = [i for i in embedded if i in rowids]
+    missing = len(rowids) - len(ids)
+    if missing:
+        # An unfinished export, or one made from a different snomed.db
+        print(f"Warning: {missing} of {len(rowids)} active descriptions have no vector and will not be searchable")
+    if not ids:
+        sys.exit("No vectors match the descriptions in the database")
+    count = len(ids)
+    lists = lists or max(1, int(math.sqrt(count)))
+    print(f"Indexing {count} descriptions embedded by '{model_id}' into {lists} lists...")
+
+    rng = np.random.default_rng(0)
+    sample_ids = [ids[i] for i in rng.choice(count, size=min(TRAIN_SAMPLE, count), replace=False)]
+    sample = np.concatenate([read_vectors(vectors_conn, sample_ids[i:i + 500]) for i in range(0, len(sample_ids), 500)])
+    centroids = train_centroids(sample, lists)
+    dim = centroids.shape[1]
+
+    cursor.executescript('''
+        DROP TABLE IF EXISTS embedding_meta;
+        DROP TABLE IF EXISTS ivf_centroids;
+        DROP TABLE IF EXISTS description_vectors;
+        CREATE TABLE embedding_meta (key TEXT PRIMARY KEY, value TEXT);
+        CREATE TABLE ivf_centroids (list_id INTEGER PRIMARY KEY, centroid BLOB);
+        CREATE TABLE description_vectors (
+            description_rowid INTEGER PRIMARY KEY,
+            list_id INTEGER,
+            scale REAL,
+            vector BLOB
+        );
+    ''')
+
+    cursor.executemany(
+        'INSERT INTO ivf_centroids (list_id, centroid) VALUES (?, ?)',
+        [(i, centroids[i].astype('<f4').tobytes()) for i in range(lists)]
+    )
+
+    # SQLite caps bound parameters, so batches are read in chunks of 500
+    for start in range(0, count, batch_size):
+        batch = ids[start:start + batch_size]
+        vectors = np.concatenate([read_vectors(vectors_conn, batch[i:i + 500]) for i in range(0, len(batch), 500)])
+        assignment = np.argmax(vectors @ centroids.T, axis=1)
+        codes, scales = quantize(vectors)
+        cursor.executemany(
+            'INSERT INTO description_vectors (description_rowid, list_id, scale, vector) VALUES (?, ?, ?, ?)',
+            [(rowids[batch[i]], int(assignment[i]), float(scales[i]), codes[i].tobytes()) for i in range(len(batch))]
+        )
+        print(f"Indexed {min(start + batch_size, count)}/{count}")
+
+    # Rows of one list are read together at query time
+    cursor.execute('CREATE INDEX idx_vectors_list ON description_vectors(list_id)')
+
+    cursor.executemany('INSERT INTO embedding_meta (key, value) VALUES (?, ?)', [
+        ('model', model_id),
+        ('embedder', EMBEDDER),
+        ('dim', str(dim)),
+        ('lists', str(lists)),
+        ('count', str(count)),
+    ])
+
+    conn.commit()
+    conn.close()
+    vectors_conn.close()
+    print(f"Done! Indexed {count} descriptions ({dim} dims, {lists} lists) for model '{model_id}'")
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description="Build the SNOMED vector index in snomed.db")
+    parser.add_argument("--vectors", required=True,
+                        help="snomed-vectors.db exported from the app with the embedding model the app queries with")
+    parser.add_argument("--db", default=DB_PATH)
+    parser.add_argument("--lists", type=int, default=0, help="Number of IVF lists (default: sqrt(count))")
+    parser.add_argument("--batch-size", type=int, default=2048)
+    args = parser.parse_args()
+
+    build_index(args.db, args.vectors, args.lists, args.batch_size)
@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+
+/**
+ * Offline evaluation of the clinical pipeline (see eval/cli.ts for options).
+ * Loads the app's TypeScript through register-ts.js; retrieval uses the bundled
+ * subset since SQLite is unavailable in Node.
+ */
+
+require("./register-ts");
+
+require("../eval/cli")
+  .main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
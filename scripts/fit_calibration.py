@@ -0,0 +1,101 @@
+import argparse
+import json
+import sys
+
+import numpy as np
+
+# Fits the logistic model the app uses to turn confidence signals into a
+# calibrated probability (utils/confidence.ts), and writes its weights to
+# constants/calibration.json.
+#
+# Input is a labelled JSONL file, one line per mapped diagnosis:
+#   {"retrieval": 0.82, "agreement": 0.67, "token_probability": null, "correct": true}
+# `correct` says whether the chosen SNOMED concept was right, as judged by a
+# clinician or a reference mapping. Signals may be null when a backend didn't
+# provide them; they are filled with the training mean, which is also what the
+# app does at run time.
+
+FEATURES = ["retrieval", "agreement", "token_probability"]
+OUT_PATH = "constants/calibration.json"
+ITERATIONS = 5000
+LEARNING_RATE = 0.5
+L2 = 1e-3
+BINS = 10
+
+
+def load(path):
+    rows, labels = [], []
+    with open(path, "r", encoding="utf-8") as f:
+        for line in f:
+            if not line.strip():
+                continue
+            record = json.loads(line)
+            rows.append([record.get(feature) for feature in FEATURES])
+            labels.append(1.0 if record["correct"] else 0.0)
+    return rows, np.array(labels)
+
+
+def impute(rows, means=None):
+    values = np.array([[np.nan if v is None else float(v) for v in row] for row in rows])
+    if means is None:
+        means = np.nanmean(values, axis=0)
+        # A signal no record has gets a neutral mean
+        means = np.where(np.isnan(means), 0.5, means)
+    filled = np.where(np.isnan(values), means, np.clip(values, 0, 1))
+    return filled, means
+
+
+def sigmoid(z):
+    return 1 / (1 + np.exp(-z))
+
+
+def fit(x, y):
+    weights = np.zeros(x.shape[1])
+    intercept = 0.0
+    for _ in range(ITERATIONS):
+        error = sigmoid(x @ weights + intercept) - y
+        weights -= LEARNING_RATE * (x.T @ error / len(y) + L2 * weights)
+        intercept -= LEARNING_RATE * error.mean()
+    return weights, intercept
+
+
+def expected_calibration_error(p, y):
+    bins = np.minimum((p * BINS).astype(int), BINS - 1)
+    return sum(abs(p[bins == b].mean() - y[bins == b].mean()) * (bins == b).sum() for b in range(BINS) if (bins == b).any()) / len(y)
+
+
+def report(name, p, y):
+    brier = np.mean((p - y) ** 2)
+    print(f"{name:<12} Brier {brier:.4f}  ECE {expected_calibration_error(p, y):.4f}")
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description="Fit confidence calibration weights from labelled runs")
+    parser.add_argument("--data", required=True, help="Labelled JSONL file")
+    parser.add_argument("--out", default=OUT_PATH)
+    args = parser.parse_args()
+
+    rows, y = load(args.data)
+    if len(y) < 20 or y.min() == y.max():
+        sys.exit("Need at least 20 records with both correct and incorrect examples")
+
+    x, means = impute(rows)
+    # Signals that never vary (e.g. always null) carry no information and get no weight
+    varying = x.std(axis=0) > 0
+    weights = np.zeros(len(FEATURES))
+    weights[varying], intercept = fit(x[:, varying], y)
+
+    report("uncalibrated", np.clip(x[:, 0], 0, 1), y)
+    report("calibrated", sigmoid(x @ weights + intercept), y)
+
+    calibration = {
+        "source": f"fitted on {len(y)} records from {args.data}",
+        "fitted": True,
+        "intercept": round(float(intercept), 4),
+        "weights": {feature: round(float(w), 4) for feature, w in zip(FEATURES, weights)},
+        "means": {feature: round(float(m), 4) for feature, m in zip(FEATURES, means)},
+    }
+    with open(args.out, "w", encoding="utf-8") as f:
+        json.dump(calibration, f, indent=2)
+        f.write("\n")
+    print(f"Wrote {args.out}")
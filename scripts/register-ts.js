@@ -0,0 +1,68 @@
+/**
+ * Lets Node require the app's TypeScript: transpiles .ts/.tsx on require,
+ * resolves the "@/" path alias, and stands in for the native modules the
+ * pipeline imports. SQLite is unavailable here, so SNOMED lookups take their
+ * existing fail-soft paths. Shared by the evaluation and the tests.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const Module = require("module");
+const ts = require("typescript");
+
+const root = path.dirname(require.resolve("../package.json"));
+
+const unavailable = (name) => () => Promise.reject(new Error(`${name} is not available in Node`));
+
+// Native modules the pipeline imports, replaced with what makes sense off-device
+const shims = {
+  "react-native": { Platform: { OS: "node", select: (options) => options.default } },
+  "expo-sqlite": { openDatabaseAsync: unavailable("expo-sqlite") },
+  "expo-asset": { Asset: { fromModule: () => ({ downloadAsync: unavailable("expo-asset") }) } },
+  "expo-file-system/legacy": {
+    documentDirectory: null,
+    getInfoAsync: unavailable("expo-file-system"),
+    makeDirectoryAsync: unavailable("expo-file-system"),
+    copyAsync: unavailable("expo-file-system"),
+  },
+};
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  if (request in shims) return request;
+  if (request.startsWith("@/")) request = path.join(root, request.slice(2));
+  try {
+    return resolveFilename.call(this, request, parent, ...rest);
+  } catch (error) {
+    // Extensionless imports of TypeScript files
+    for (const extension of [".ts", ".tsx"]) {
+      if (fs.existsSync(request + extension)) return request + extension;
+      const relative = parent && path.resolve(path.dirname(parent.filename), request + extension);
+      if (relative && fs.existsSync(relative)) return relative;
+    }
+    throw error;
+  }
+};
+
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  if (request in shims) return shims[request];
+  return load.call(this, request, ...rest);
+};
+
+const compile = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+require.extensions[".ts"] = compile;
+require.extensions[".tsx"] = compile;
+
+module.exports = { root };
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+
+/**
+ * Runs the unit tests in tests/ with node:test. Files load the app's
+ * TypeScript through register-ts.js; pass file names to run only those.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { root } = require("./register-ts");
+
+const dir = path.join(root, "tests");
+const files = process.argv.length > 2
+  ? process.argv.slice(2).map((file) => path.resolve(file))
+  : fs.readdirSync(dir).filter((file) => file.endsWith(".test.ts")).sort().map((file) => path.join(dir, file));
+
+// node:test reports and sets the exit code once every registered test has run
+for (const file of files) require(file);
@@ -0,0 +1,39 @@
+import { ClinicalBackend } from '@/types/pipeline';
+import { isAbortError } from '@/utils/abort';
+
+// Keeps the raw transcript on the device: extraction always runs locally, and only the
+// structured PatientData is sent to the server. Diagnosis stages prefer the server
+// (bigger models) and fall back to the device when it is unreachable, but not when
+// the run was cancelled, nor when `fallback` is off because the device lacks the
+// reasoning or embedding model: that fallback would fail halfway through anyway.
+export const createHybridBackend = (
+  local: ClinicalBackend,
+  remote: ClinicalBackend,
+  { fallback = true }: { fallback?: boolean } = {}
+): ClinicalBackend => ({
+  kind: 'hybrid',
+
+  chatExtract(history, options) {
+    return local.chatExtract(history, options);
+  },
+
+  async proposeDiagnoses(data, options) {
+    try {
+      return await remote.proposeDiagnoses(data, options);
+    } catch (err) {
+      if (isAbortError(err) || !fallback) throw err;
+      console.warn("Remote proposal failed, running on device:", err);
+      return local.proposeDiagnoses(data, options);
+    }
+  },
+
+  async explainAndMap(data, diagnoses, options) {
+    try {
+      return await remote.explainAndMap(data, diagnoses, options);
+    } catch (err) {
+      if (isAbortError(err) || !fallback) throw err;
+      console.warn("Remote mapping failed, running on device:", err);
+      return local.explainAndMap(data, diagnoses, options);
+    }
+  },
+});
@@ -0,0 +1,61 @@
+import type { CactusLMHandle } from '@/services/onDevice';
+import { ModelRole } from '@/types/pipeline';
+
+// Hands each on-device stage the model assigned to its role. Only one model is
+// kept in memory: acquiring a role whose model isn't loaded unloads the previous
+// one first, so a large reasoning model and a large extraction model are never
+// resident together. Roles that share a model share one handle and never swap.
+// Screens rebuild the router on every render, so which model is resident lives
+// in a holder the caller keeps (a ref).
+
+export interface StageModel {
+  name: string;
+  lm: CactusLMHandle;
+}
+
+export interface ModelRouter {
+  /** Model name for a role, without loading anything. */
+  nameOf(role: ModelRole): string;
+  /** Makes the role's model the resident one and returns it. Rejects with a ModelMissingError when it isn't downloaded. */
+  acquire(role: ModelRole): Promise<StageModel>;
+}
+
+// Downloads are started from the Models screen, where the user sees progress and
+// can retry; a stage never starts one itself
+export const createModelMissingError = (modelName: string) => {
+  const error = new Error(`Model ${modelName} is not downloaded`);
+  error.name = 'ModelMissingError';
+  return error;
+};
+
+export const isModelMissingError = (err: unknown) =>
+  err instanceof Error && err.name === 'ModelMissingError';
+
+export const createModelRouter = (
+  models: Record<ModelRole, StageModel>,
+  resident: { current: string | null } = { current: null }
+): ModelRouter => {
+  // The first role using a model owns the handle every role with that model gets
+  const byName = (name: string) => Object.values(models).find(m => m.name === name);
+
+  return {
+    nameOf: role => models[role].name,
+
+    async acquire(role) {
+      const model = byName(models[role].name) ?? models[role];
+      if (!model.lm.isDownloaded) throw createModelMissingError(model.name);
+      // A model that is no longer assigned was already released with its hook
+      const previous = resident.current !== null && resident.current !== model.name ? byName(resident.current) : undefined;
+      if (previous) {
+        console.log(`Unloading ${previous.name} to load ${model.name}`);
+        await previous.lm.destroy().catch(err => console.warn(`Failed to unload ${previous.name}:`, err));
+      }
+      resident.current = model.name;
+      return model;
+    },
+  };
+};
+
+/** Every role on one model, as before routing existed. */
+export const createSingleModelRouter = (lm: CactusLMHandle, name: string) =>
+  createModelRouter({ extraction: { name, lm }, reasoning: { name, lm }, embedding: { name, lm } });
@@ -0,0 +1,178 @@
+import { CactusLM, type CactusModel } from 'cactus-react-native';
+import { version as cactusVersion } from 'cactus-react-native/package.json';
+import { NitroModules, type HybridObject } from 'react-native-nitro-modules';
+// Legacy import to silence deprecation warning until migration to new FileSystem API
+import { documentDirectory, getInfoAsync, readAsStringAsync, writeAsStringAsync } from 'expo-file-system/legacy';
+import { PipelineConfig } from '@/constants/config';
+import { ModelRole } from '@/types/pipeline';
+
+// Which Cactus models are on the device, downloads in progress, and the model
+// each pipeline role runs on. Shared by the Models screen and the pipeline hook, so a
+// download started on one screen shows up on the other.
+
+export interface ModelEntry {
+  slug: string;
+  name: string;
+  /** Null when the catalogue couldn't be fetched. */
+  sizeMb: number | null;
+  supportsVision: boolean;
+  isDownloaded: boolean;
+  /** 0-1 while downloading, null otherwise. */
+  progress: number | null;
+  /** Why the last download or delete failed. */
+  error?: string;
+}
+
+export interface ModelState {
+  models: ModelEntry[];
+  /** Model slug per role. */
+  assignments: Record<ModelRole, string>;
+  /** Whether the catalogue has been fetched at least once. */
+  loaded: boolean;
+  error: string | null;
+}
+
+// CactusLM has no public way to delete a model, and getModels() is the only
+// public download check: it needs the network and caches its answer for the
+// session. Nor is the model directory documented (on Android it is the external
+// files directory, which expo-file-system doesn't expose). So these two calls go
+// to the package's internal native file system object, the one CactusLM itself
+// uses. Its interface isn't public and can change in any release, so the
+// package is pinned to the exact version this was written against
+// (package.json) and the object is refused on any other. When upgrading, check
+// src/specs/CactusFileSystem.nitro.ts in the package and update the pin here.
+const CACTUS_FILE_SYSTEM_VERSION = '1.2.0';
+
+interface CactusFileSystem extends HybridObject<{ ios: 'swift'; android: 'kotlin' }> {
+  modelExists(model: string): Promise<boolean>;
+  deleteModel(model: string): Promise<void>;
+}
+
+let fileSystem: CactusFileSystem | null = null;
+const cactusFileSystem = () => {
+  if (cactusVersion !== CACTUS_FILE_SYSTEM_VERSION) {
+    throw new Error(`Model files are managed for cactus-react-native ${CACTUS_FILE_SYSTEM_VERSION}, found ${cactusVersion}`);
+  }
+  fileSystem ??= NitroModules.createHybridObject<CactusFileSystem>('CactusFileSystem');
+  return fileSystem;
+};
+
+const SETTINGS_PATH = documentDirectory ? `${documentDirectory}model-settings.json` : null;
+
+// Saved assignments override the configured ones role by role
+const loadAssignments = async (): Promise<Partial<Record<ModelRole, string>>> => {
+  if (!SETTINGS_PATH || !(await getInfoAsync(SETTINGS_PATH)).exists) return {};
+  const settings = JSON.parse(await readAsStringAsync(SETTINGS_PATH));
+  const saved = settings.assignments ?? {};
+  return Object.fromEntries(PipelineConfig.modelRoles
+    .filter(role => typeof saved[role] === 'string')
+    .map(role => [role, saved[role]]));
+};
+
+const saveAssignments = async (assignments: Record<ModelRole, string>) => {
+  if (SETTINGS_PATH) await writeAsStringAsync(SETTINGS_PATH, JSON.stringify({ assignments }));
+};
+
+const toEntry = (model: CactusModel, isDownloaded: boolean): ModelEntry => ({
+  slug: model.slug,
+  name: model.name,
+  sizeMb: model.sizeMb,
+  supportsVision: model.supportsVision,
+  isDownloaded,
+  progress: null,
+});
+
+export const createModelStore = () => {
+  let state: ModelState = { models: [], assignments: { ...PipelineConfig.models }, loaded: false, error: null };
+  const listeners = new Set<() => void>();
+
+  const setState = (next: Partial<ModelState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const updateModel = (slug: string, change: Partial<ModelEntry>) =>
+    setState({ models: state.models.map(m => m.slug === slug ? { ...m, ...change } : m) });
+
+  const find = (slug: string) => state.models.find(m => m.slug === slug);
+
+  const assignedSlugs = () => Array.from(new Set(Object.values(state.assignments)));
+
+  return {
+    getState: () => state,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    /** Fetches the catalogue and checks which models are on disk. */
+    async refresh() {
+      const saved = await loadAssignments().catch(() => ({}));
+      setState({ assignments: { ...state.assignments, ...saved } });
+      try {
+        // getModels() caches isDownloaded for the session, so ask the file system
+        const catalogue = await new CactusLM().getModels();
+        const models = await Promise.all(catalogue.map(async model => {
+          const isDownloaded = await cactusFileSystem().modelExists(model.slug);
+          // Keep progress of downloads that are still running
+          return { ...toEntry(model, isDownloaded), progress: find(model.slug)?.progress ?? null };
+        }));
+        setState({ models, loaded: true, error: null });
+      } catch (err) {
+        // Offline: the catalogue is unavailable, but models already on disk still run
+        console.error("Failed to load model catalogue:", err);
+        const models = await Promise.all(assignedSlugs().map(async slug => ({
+          slug,
+          name: slug,
+          sizeMb: null,
+          supportsVision: false,
+          isDownloaded: await cactusFileSystem().modelExists(slug).catch(() => false),
+          progress: null,
+        })));
+        setState({
+          models,
+          loaded: true,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+
+    async download(slug: string) {
+      const running = find(slug)?.progress;
+      if (running !== null && running !== undefined) return;
+      updateModel(slug, { progress: 0, error: undefined });
+      try {
+        await new CactusLM({ model: slug }).download({ onProgress: progress => updateModel(slug, { progress }) });
+        updateModel(slug, { isDownloaded: true, progress: null });
+      } catch (err) {
+        console.error(`Failed to download ${slug}:`, err);
+        updateModel(slug, { progress: null, error: err instanceof Error ? err.message : String(err) });
+      }
+    },
+
+    // An assigned model may be loaded in the pipeline, so it can't be deleted; reassign first
+    async remove(slug: string) {
+      if (assignedSlugs().includes(slug)) throw new Error('Assign another model to its roles before deleting this one.');
+      try {
+        await cactusFileSystem().deleteModel(slug);
+        updateModel(slug, { isDownloaded: false, error: undefined });
+      } catch (err) {
+        console.error(`Failed to delete ${slug}:`, err);
+        updateModel(slug, { error: err instanceof Error ? err.message : String(err) });
+      }
+    },
+
+    async assign(role: ModelRole, slug: string) {
+      setState({ assignments: { ...state.assignments, [role]: slug } });
+      await saveAssignments(state.assignments).catch(err => console.warn("Failed to save model assignments:", err));
+    },
+
+    /** False until the catalogue has loaded, so a run never starts on a guess. */
+    isDownloaded: (slug: string) => find(slug)?.isDownloaded ?? false,
+  };
+};
+
+export type ModelStore = ReturnType<typeof createModelStore>;
+
+export const modelStore = createModelStore();
@@ -0,0 +1,235 @@
+import { useCactusLM, type CactusLMCompleteParams } from 'cactus-react-native';
+import { jsonrepair } from 'jsonrepair';
+import { PipelineConfig } from '@/constants/config';
+import { isModelMissingError, type ModelRouter } from '@/services/modelRouter';
+import { ClinicalBackend, DiagnosisCandidate, FinalDiagnosis, PatientData, StageOptions } from '@/types/pipeline';
+import { createAbortError, isAbortError, throwIfAborted } from '@/utils/abort';
+import { sampleAgreement, withCalibratedConfidence } from '@/utils/confidence';
+import { parseDiagnosisList, rankDifferential } from '@/utils/differential';
+import { groundDiagnoses } from '@/utils/grounding';
+import { clinicalFields, emptyPatientData, invalidFields, validatePatientData } from '@/utils/patientData';
+import { renderPrompt } from '@/utils/prompts';
+import { retrieveSnomedCandidates } from '@/utils/snomedSearch';
+
+export type CactusLMHandle = ReturnType<typeof useCactusLM>;
+
+// How many times the model is asked to fix invalid extraction JSON before we give up
+const MAX_EXTRACTION_REPAIRS = 2;
+
+// Retrieval score above which two phrases mapping to the same concept are merged
+const CONCEPT_MERGE_SCORE = 0.85;
+
+const stripThinking = (text: string) => text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+
+// cactusLM.complete has no AbortSignal support, so an abort stops generation
+// through lm.stop() and the call rejects once the native side returns.
+const complete = async (lm: CactusLMHandle, params: CactusLMCompleteParams, options?: StageOptions) => {
+  const signal = options?.signal;
+  throwIfAborted(signal);
+  const onAbort = () => { lm.stop().catch(() => {}); };
+  signal?.addEventListener('abort', onAbort);
+  try {
+    const result = await lm.complete({ ...params, onToken: options?.onToken });
+    throwIfAborted(signal);
+    return result;
+  } catch (err) {
+    if (signal?.aborted) throw createAbortError();
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Helper to safely parse JSON, or return null if completely failed
+export const parseJSON = (text: string) => {
+  if (!text) return null;
+
+  let cleanedText = stripThinking(text);
+  // Only the fenced block: jsonrepair would turn prose around it into extra array items
+  const fenced = cleanedText.match(/```(?:json)?([\s\S]*?)```/);
+  if (fenced) cleanedText = fenced[1];
+  cleanedText = cleanedText.replace(/```json/g, '').replace(/```/g, '').trim();
+  cleanedText = cleanedText.replace(/<\|im_end\|>/g, '').trim();
+  cleanedText = cleanedText.replace(/\/\/.*$/gm, '');
+  cleanedText = cleanedText.replace(/\*\*/g, '');
+
+  try {
+    return JSON.parse(jsonrepair(cleanedText));
+  } catch {
+    // Fallback strategies (Array or Object extraction)
+    try {
+        const firstBracket = cleanedText.indexOf('[');
+        const lastBracket = cleanedText.lastIndexOf(']');
+        if (firstBracket !== -1 && lastBracket > firstBracket) {
+           return JSON.parse(jsonrepair(cleanedText.substring(firstBracket, lastBracket + 1)));
+        }
+        const firstBrace = cleanedText.indexOf('{');
+        const lastBrace = cleanedText.lastIndexOf('}');
+        if (firstBrace !== -1 && lastBrace > firstBrace) {
+            return JSON.parse(jsonrepair(cleanedText.substring(firstBrace, lastBrace + 1)));
+        }
+    } catch {}
+    return null;
+  }
+};
+
+// Runs every stage on the device, each on the model the router assigns to its role.
+export const createOnDeviceBackend = (models: ModelRouter): ClinicalBackend => {
+  // Embedding calls come one at a time between completions; acquire is a no-op
+  // while the embedding model is already resident
+  const embed = async (text: string) => (await (await models.acquire('embedding')).lm.embed({ text })).embedding;
+
+  return {
+    kind: 'on-device',
+
+    async chatExtract(history, options) {
+      const { lm, name } = await models.acquire('extraction');
+      throwIfAborted(options?.signal);
+
+      // Rendered with the history so the model's user suffix reaches the transcript
+      const prompt = renderPrompt('extract', name, {}, history);
+      const messages = prompt.messages;
+      const stamps = [prompt.stamp];
+      let lastResponse = '';
+
+      // Re-prompt with the validation errors until the output fits PatientData
+      for (let attempt = 0; attempt <= MAX_EXTRACTION_REPAIRS; attempt++) {
+        if (attempt > 0) options?.onToken?.('\n\n');
+        const response = await complete(lm, {
+          messages,
+          options: { temperature: 0.1 }
+        }, options);
+        lastResponse = response.response;
+
+        const parsed = parseJSON(lastResponse);
+        const { value, errors } = parsed
+          ? validatePatientData(parsed)
+          : { value: null, errors: ['Output was not valid JSON.'] };
+        if (value && errors.length === 0) return { ...value, extraction_prompts: stamps };
+
+        console.warn(`Extraction attempt ${attempt + 1} invalid: ${errors.length} problems in ${invalidFields(errors).join(', ')}`);
+        const repair = renderPrompt('extract-repair', name, { errors: errors.map(e => `- ${e}`).join('\n') });
+        messages.push({ role: 'assistant', content: lastResponse }, ...repair.messages);
+        if (attempt === 0) stamps.push(repair.stamp);
+      }
+
+      // Fallback: Construct a minimal PatientData object from the raw text if JSON failed
+      return { ...emptyPatientData(stripThinking(lastResponse)), extraction_prompts: stamps };
+    },
+
+    async proposeDiagnoses(data: PatientData, options) {
+      const { lm, name } = await models.acquire('reasoning');
+      throwIfAborted(options?.signal);
+
+      // A few more than needed gives the vote something to choose from
+      const prompt = renderPrompt('propose', name, {
+        count: PipelineConfig.differentialSize + 2,
+        patient: JSON.stringify(clinicalFields(data)),
+      });
+
+      // Independent samples at a moderate temperature; diagnoses most of them agree
+      // on rank first. Only the first one is streamed.
+      const samples: string[][] = [];
+      for (let i = 0; i < PipelineConfig.proposalSamples; i++) {
+        const response = await complete(lm, {
+          messages: prompt.messages,
+          options: { temperature: 0.7 }
+        }, i === 0 ? options : { signal: options?.signal });
+        samples.push(parseDiagnosisList(stripThinking(response.response)));
+      }
+
+      // Variants that retrieve the same SNOMED concept with a strong match are one diagnosis
+      const embeddingModel = models.nameOf('embedding');
+      const resolveConcept = async (phrase: string) => {
+        const [best] = await retrieveSnomedCandidates(phrase, { embed, modelName: embeddingModel, limit: 1, signal: options?.signal });
+        return best && best.score >= CONCEPT_MERGE_SCORE ? best.id : null;
+      };
+
+      const differential = await rankDifferential(samples, { size: PipelineConfig.differentialSize, resolveConcept });
+      throwIfAborted(options?.signal);
+      // Counts only: diagnoses and transcripts must not end up in the device log
+      console.log(`Proposed ${differential.length} diagnoses from ${samples.length} samples`);
+      return differential.map(d => ({ ...d, prompt: prompt.stamp }));
+    },
+
+    async explainAndMap(data, diagnoses, options) {
+      // Retrieval falls back to lexical scores when embedding fails; a missing model should stop the run instead
+      await models.acquire('embedding');
+
+      // 1. Map candidates locally first using the JSON subset, ranked by embedding similarity
+      const embeddingModel = models.nameOf('embedding');
+      const mappedCandidates: DiagnosisCandidate[] = [];
+      for (const diagnosis of diagnoses) {
+         const candidates = await retrieveSnomedCandidates(diagnosis, { embed, modelName: embeddingModel, signal: options?.signal });
+         throwIfAborted(options?.signal);
+         mappedCandidates.push({ phrase: diagnosis, candidates });
+      }
+
+      console.log(`Retrieved SNOMED candidates for ${mappedCandidates.length} diagnoses`);
+
+      let finalDiagnoses: FinalDiagnosis[] = [];
+      let agreement: number[] | undefined;
+
+      try {
+          // The model picks from what we retrieved; anything else is caught by groundDiagnoses
+          const candidateList = mappedCandidates
+            .map(item => `- ${item.phrase}: ${item.candidates.map(c => `${c.id} "${c.term}"`).join(', ') || 'no candidates'}`)
+            .join('\n');
+          const { lm, name } = await models.acquire('reasoning');
+          const prompt = renderPrompt('explain', name, {
+            patient: JSON.stringify(clinicalFields(data)),
+            candidates: candidateList,
+          });
+
+          const response = await complete(lm, {
+            messages: prompt.messages,
+            options: { temperature: 0.3 } // Lower temp for structure
+          }, options);
+
+          const parsed = parseJSON(response.response);
+          if (parsed && Array.isArray(parsed) && parsed.length > 0) {
+            finalDiagnoses = (await groundDiagnoses(parsed, mappedCandidates)).map(d => ({ ...d, prompt: prompt.stamp }));
+
+            // Extra samples at a higher temperature measure how stable the choice is.
+            // They are not streamed; the clinician already saw the answer being written.
+            const samples: FinalDiagnosis[][] = [];
+            for (let i = 1; i < PipelineConfig.confidenceSamples; i++) {
+              const sample = await complete(lm, {
+                messages: prompt.messages,
+                options: { temperature: 0.8 }
+              }, { signal: options?.signal });
+              const parsedSample = parseJSON(sample.response);
+              samples.push(Array.isArray(parsedSample) ? parsedSample : []);
+            }
+            agreement = sampleAgreement(finalDiagnoses, samples);
+          } else {
+            console.warn("LLM explanation JSON invalid or empty, falling back to manual mapping.");
+          }
+      } catch (llmErr) {
+          // A cancel or a missing model must not fall through to the manual mapping below
+          if (isAbortError(llmErr) || isModelMissingError(llmErr)) throw llmErr;
+          console.warn("LLM explanation failed:", llmErr);
+      }
+
+      if (finalDiagnoses.length === 0) {
+        // Fallback: Construct results directly from mapped candidates
+        finalDiagnoses = mappedCandidates.map(item => {
+            // Candidates are sorted by similarity, so the first is the top-ranked one
+            const best = item.candidates.length > 0 ? item.candidates[0] : null;
+            return {
+                phrase: item.phrase,
+                chosen_snomed_ids: best ? [best.id] : [],
+                confidence: 0, // replaced by withCalibratedConfidence below
+                explanation: best
+                  ? `Mapped to SNOMED term: "${best.term}" (similarity ${best.score.toFixed(2)})`
+                  : "No matching SNOMED concept found in local subset."
+            };
+        });
+      }
+
+      finalDiagnoses = withCalibratedConfidence(finalDiagnoses, mappedCandidates, agreement);
+
+      return finalDiagnoses;
+    },
+  };
+};
@@ -0,0 +1,126 @@
+import { PipelineConfig } from '@/constants/config';
+import { PatientData, DiagnosisCandidate, FinalDiagnosis, ChatMessage, ClinicalBackend, StageOptions } from '@/types/pipeline';
+import { createAbortError, throwIfAborted } from '@/utils/abort';
+import { withCalibratedConfidence } from '@/utils/confidence';
+import { rankDifferential } from '@/utils/differential';
+import { groundDiagnoses } from '@/utils/grounding';
+import { clinicalFields, invalidFields, validatePatientData } from '@/utils/patientData';
+
+const API_URL = PipelineConfig.apiUrl;
+
+// POSTs JSON and parses the JSON reply. With onToken set, the request goes over
+// XMLHttpRequest instead of fetch because React Native's fetch cannot read a
+// response body incrementally; each progress event forwards the newly received text.
+const postJSON = <T,>(path: string, body: unknown, errorMessage: string, options?: StageOptions): Promise<T> => {
+  const onToken = options?.onToken;
+  const signal = options?.signal;
+
+  if (!onToken) {
+    return fetch(`${API_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    }).then(response => {
+      if (!response.ok) throw new Error(errorMessage);
+      return response.json();
+    }, err => {
+      throw signal?.aborted ? createAbortError() : err;
+    });
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    throwIfAborted(signal);
+    const xhr = new XMLHttpRequest();
+    let received = 0;
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+    const done = () => signal?.removeEventListener('abort', onAbort);
+
+    const flush = () => {
+      const text = xhr.responseText ?? '';
+      if (text.length > received) {
+        onToken(text.slice(received));
+        received = text.length;
+      }
+    };
+
+    xhr.open('POST', `${API_URL}${path}`);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      done();
+      flush();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(errorMessage));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new Error(errorMessage));
+      }
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new Error(errorMessage));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(createAbortError());
+    };
+    xhr.send(JSON.stringify(body));
+  });
+};
+
+export const PipelineService = {
+  chatExtract(message: string, history: ChatMessage[], options?: StageOptions): Promise<PatientData> {
+    return postJSON('/chat/extract', { message, history }, 'Failed to extract data', options);
+  },
+
+  proposeDiagnoses(data: PatientData, options?: StageOptions): Promise<string[]> {
+    return postJSON('/diagnose/propose', clinicalFields(data), 'Failed to propose diagnoses', options);
+  },
+
+  mapSnomed(phrases: string[], options?: StageOptions): Promise<DiagnosisCandidate[]> {
+    return postJSON('/snomed/map', phrases, 'Failed to map SNOMED', options);
+  },
+
+  explainDiagnosis(patientData: PatientData, candidates: DiagnosisCandidate[], options?: StageOptions): Promise<FinalDiagnosis[]> {
+    return postJSON('/diagnose/explain', { patient_data: clinicalFields(patientData), candidates }, 'Failed to explain diagnosis', options);
+  }
+};
+
+// Adapts the HTTP routes to the ClinicalBackend surface.
+export const createRemoteBackend = (): ClinicalBackend => ({
+  kind: 'remote',
+
+  async chatExtract(history, options) {
+    // The server expects the latest user turn separately from the rest of the conversation.
+    const lastUserIndex = history.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return null;
+    const message = history[lastUserIndex].content;
+    const previous = history.filter((_, i) => i !== lastUserIndex);
+    // Normalise so a server that drifts from the schema can't crash the screen
+    const { value, errors } = validatePatientData(await PipelineService.chatExtract(message, previous, options));
+    if (errors.length > 0) console.warn(`Remote extraction did not match PatientData: ${errors.length} problems in ${invalidFields(errors).join(', ')}`);
+    return value;
+  },
+
+  async proposeDiagnoses(data, options) {
+    // The server returns a single list, so there is nothing to vote on: it is only
+    // de-duplicated and trimmed to the configured size
+    const list = await PipelineService.proposeDiagnoses(data, options);
+    const ranked = await rankDifferential([list], { size: PipelineConfig.differentialSize });
+    return ranked.map(item => ({ phrase: item.phrase, votes: item.votes }));
+  },
+
+  async explainAndMap(data, diagnoses, options) {
+    // Only the explanation is worth streaming; the candidate list is not model text
+    const candidates = await PipelineService.mapSnomed(diagnoses, { signal: options?.signal });
+    const explained = await PipelineService.explainDiagnosis(data, candidates, options);
+    // The server may report token probabilities; agreement needs sampling it doesn't do
+    return withCalibratedConfidence(await groundDiagnoses(explained, candidates), candidates);
+  },
+});
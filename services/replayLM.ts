@@ -0,0 +1,131 @@
+import type { CactusLMCompleteParams, CactusLMCompleteResult, Message } from 'cactus-react-native';
+import type { CactusLMHandle } from '@/services/onDevice';
+
+// Fake LMs with the useCactusLM surface. A recorder wraps the real hook and
+// captures every completion and embedding as a fixture; a replay LM serves
+// those fixtures back, so a run can be reproduced exactly without a model.
+// Fixtures are matched on the exact prompt (messages plus temperature): a prompt
+// change is a different fixture and has to be recorded again.
+
+export type LMFixture =
+  | { kind: 'complete'; key: string; messages: Message[]; temperature?: number; response: string }
+  | { kind: 'embed'; text: string; embedding: number[] };
+
+// FNV-1a, enough to key prompts; fixtures keep the messages for reading
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Stable key for a completion request. */
+export const fixtureKey = (messages: Message[], temperature?: number) =>
+  hash(JSON.stringify({ messages: messages.map(m => [m.role, m.content ?? '']), temperature: temperature ?? null }));
+
+const result = (response: string): CactusLMCompleteResult => ({
+  success: true,
+  response,
+  timeToFirstTokenMs: 0,
+  totalTimeMs: 0,
+  tokensPerSecond: 0,
+  prefillTokens: 0,
+  decodeTokens: 0,
+  totalTokens: 0,
+});
+
+/** Builds an object with the useCactusLM surface around completion and embedding functions. */
+export const createFakeLM = (
+  respond: (params: CactusLMCompleteParams) => Promise<string>,
+  embed: (text: string) => Promise<number[]>
+): CactusLMHandle => {
+  const lm: CactusLMHandle = {
+    completion: '',
+    isGenerating: false,
+    isInitializing: false,
+    isDownloaded: true,
+    isDownloading: false,
+    downloadProgress: 1,
+    error: null,
+    download: async () => {},
+    init: async () => {},
+    complete: async params => {
+      const response = await respond(params);
+      params.onToken?.(response);
+      lm.completion = response;
+      return result(response);
+    },
+    embed: async ({ text }) => ({ embedding: await embed(text) }),
+    imageEmbed: async () => ({ embedding: [] }),
+    reset: async () => {},
+    stop: async () => {},
+    destroy: async () => {},
+    getModels: async () => [],
+  };
+  return lm;
+};
+
+/**
+ * Serves recorded fixtures. Repeated prompts (sampling) get their recorded
+ * responses in order, then the last one again. A prompt that was never
+ * recorded is an error, so stale fixtures fail loudly instead of drifting.
+ */
+export const createReplayLM = (fixtures: LMFixture[]): CactusLMHandle => {
+  const completions = new Map<string, string[]>();
+  const embeddings = new Map<string, number[]>();
+  for (const fixture of fixtures) {
+    if (fixture.kind === 'complete') completions.set(fixture.key, [...(completions.get(fixture.key) ?? []), fixture.response]);
+    else embeddings.set(fixture.text, fixture.embedding);
+  }
+  const served = new Map<string, number>();
+
+  return createFakeLM(
+    async ({ messages, options }) => {
+      const key = fixtureKey(messages, options?.temperature);
+      const responses = completions.get(key);
+      if (!responses) {
+        const last = messages[messages.length - 1]?.content ?? '';
+        throw new Error(`No recorded completion for prompt ${key} ("${last.slice(0, 60)}...")`);
+      }
+      const turn = served.get(key) ?? 0;
+      served.set(key, turn + 1);
+      return responses[Math.min(turn, responses.length - 1)];
+    },
+    async text => {
+      const embedding = embeddings.get(text);
+      if (!embedding) throw new Error(`No recorded embedding for "${text}"`);
+      return embedding;
+    }
+  );
+};
+
+// Embeddings are long; five significant digits keep fixtures small. Candidate
+// prompts list ids and terms, not scores, so replay still matches.
+const roundEmbedding = (embedding: number[]) => embedding.map(v => Number(v.toPrecision(5)));
+
+/** Wraps a real LM and reports every completion and embedding as a fixture. */
+export const createRecordingLM = (lm: CactusLMHandle, record: (fixture: LMFixture) => void): CactusLMHandle => ({
+  ...lm,
+  complete: async params => {
+    const completion = await lm.complete(params);
+    record({
+      kind: 'complete',
+      key: fixtureKey(params.messages, params.options?.temperature),
+      messages: params.messages.map(({ role, content }) => ({ role, content })),
+      temperature: params.options?.temperature,
+      response: completion.response,
+    });
+    return completion;
+  },
+  embed: async params => {
+    const embedding = await lm.embed(params);
+    record({ kind: 'embed', text: params.text, embedding: roundEmbedding(embedding.embedding) });
+    return embedding;
+  },
+});
+
+/** Fixtures are stored one JSON object per line so recorders can append. */
+export const parseFixtures = (text: string): LMFixture[] =>
+  text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
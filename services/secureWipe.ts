@@ -0,0 +1,15 @@
+import { vault } from '@/services/vault';
+import { deleteEncounterStore } from '@/utils/encounterStore';
+import { deleteFixtureLog } from '@/utils/fixtureLog';
+
+// Removes every trace of patient data from the device. Destroying the wrapped key
+// comes first: once it is gone the sealed encounters are unreadable even if a
+// later step fails or the file system keeps old blocks around. Downloaded models
+// and the SNOMED database hold no patient data and are kept.
+export const wipePatientData = async () => {
+  await vault.destroy();
+  await deleteEncounterStore();
+  // Recorded completions are plaintext debug output and include the transcripts
+  await deleteFixtureLog();
+  console.log("Patient data wiped");
+};
@@ -0,0 +1,199 @@
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils.js';
+// Legacy import to silence deprecation warning until migration to new FileSystem API
+import { deleteAsync, documentDirectory, getInfoAsync, readAsStringAsync } from 'expo-file-system/legacy';
+import * as SecureStore from 'expo-secure-store';
+import { DEFAULT_KDF, deriveKey, KdfParams, KEY_LENGTH, open, randomBytes, seal } from '@/utils/crypto';
+import {
+  NO_FAILED_ATTEMPTS,
+  parseUnlockAttempts,
+  recordFailedAttempt,
+  unlockAllowedAt,
+  UnlockAttempts,
+} from '@/utils/unlockThrottle';
+
+// Holds the key that encrypts patient data. A random data key encrypts the
+// records; the passcode only derives the key that wraps it, so changing the
+// passcode re-wraps one key instead of re-encrypting every record, and deleting
+// the wrapped key makes all stored data unreadable at once. Neither the passcode
+// nor the data key is ever written to disk. Storage modules call seal/open and
+// never handle keys themselves.
+//
+// The wrapped key lives in the Keychain / Keystore (expo-secure-store), readable
+// only on this device while it is unlocked and left out of backups. In the
+// documents directory it could be copied off with a backup and a short passcode
+// guessed offline; here every guess goes through unlock(), which makes the
+// caller wait longer after each failure (utils/unlockThrottle.ts).
+
+export type VaultStatus = 'loading' | 'unset' | 'locked' | 'unlocked';
+
+interface VaultFile {
+  version: 1;
+  kdf: KdfParams;
+  /** Data key sealed with the passcode key. Hex. */
+  wrappedKey: string;
+}
+
+export const MIN_PASSCODE_LENGTH = 6;
+
+const VAULT_KEY = 'vault';
+const ATTEMPTS_KEY = 'vault-attempts';
+const SECURE_OPTIONS: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+// Where earlier versions kept the wrapped key; moved into the secure store on load
+const LEGACY_VAULT_PATH = `${documentDirectory}vault.json`;
+// Authenticated with the wrapped key so it can't be swapped for another vault's
+const WRAP_AAD = utf8ToBytes('vault-key');
+
+export const createVaultLockedError = () => {
+  const error = new Error('Patient data is locked');
+  error.name = 'VaultLockedError';
+  return error;
+};
+
+export const createVaultThrottledError = (retryAt: number) => {
+  const error = new Error(`Too many wrong passcodes. Try again in ${Math.ceil((retryAt - Date.now()) / 1000)} s.`);
+  error.name = 'VaultThrottledError';
+  return Object.assign(error, { retryAt });
+};
+
+export const isVaultThrottledError = (err: unknown): err is Error & { retryAt: number } =>
+  err instanceof Error && err.name === 'VaultThrottledError';
+
+const writeVaultFile = (file: VaultFile) =>
+  SecureStore.setItemAsync(VAULT_KEY, JSON.stringify(file), SECURE_OPTIONS);
+
+const readVaultFile = async (): Promise<VaultFile | null> => {
+  const stored = await SecureStore.getItemAsync(VAULT_KEY, SECURE_OPTIONS);
+  if (stored) return JSON.parse(stored);
+  if (!(await getInfoAsync(LEGACY_VAULT_PATH)).exists) return null;
+  const legacy: VaultFile = JSON.parse(await readAsStringAsync(LEGACY_VAULT_PATH));
+  await writeVaultFile(legacy);
+  await deleteAsync(LEGACY_VAULT_PATH, { idempotent: true });
+  return legacy;
+};
+
+const wrapKey = async (dataKey: Uint8Array, passcode: string): Promise<VaultFile> => {
+  const salt = randomBytes(16);
+  const kdf: KdfParams = { ...DEFAULT_KDF, salt: bytesToHex(salt) };
+  const passcodeKey = await deriveKey(passcode, kdf, salt);
+  try {
+    return { version: 1, kdf, wrappedKey: bytesToHex(seal(passcodeKey, dataKey, WRAP_AAD)) };
+  } finally {
+    passcodeKey.fill(0);
+  }
+};
+
+export const createVault = () => {
+  let status: VaultStatus = 'loading';
+  let dataKey: Uint8Array | null = null;
+  let attempts: UnlockAttempts = NO_FAILED_ATTEMPTS;
+  const listeners = new Set<() => void>();
+
+  const setStatus = (next: VaultStatus) => {
+    status = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const setAttempts = async (next: UnlockAttempts) => {
+    attempts = next;
+    listeners.forEach(listener => listener());
+    if (next === NO_FAILED_ATTEMPTS) await SecureStore.deleteItemAsync(ATTEMPTS_KEY, SECURE_OPTIONS);
+    else await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(next), SECURE_OPTIONS);
+  };
+
+  const requireKey = () => {
+    if (!dataKey) throw createVaultLockedError();
+    return dataKey;
+  };
+
+  return {
+    getStatus: () => status,
+
+    /** Wrong passcodes since the last unlock. Same object until it changes, for useSyncExternalStore. */
+    getAttempts: () => attempts,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    /** Finds out whether a passcode has been set. */
+    async load() {
+      try {
+        const file = await readVaultFile();
+        attempts = parseUnlockAttempts(await SecureStore.getItemAsync(ATTEMPTS_KEY, SECURE_OPTIONS));
+        setStatus(file ? 'locked' : 'unset');
+      } catch (err) {
+        // An unreadable vault must not fall back to "no passcode"; staying locked is safe
+        console.error("Failed to read vault:", err);
+        setStatus('locked');
+      }
+    },
+
+    /** Creates the data key and protects it with a new passcode. */
+    async setup(passcode: string) {
+      if (passcode.length < MIN_PASSCODE_LENGTH) throw new Error(`Passcode must be at least ${MIN_PASSCODE_LENGTH} characters`);
+      const key = randomBytes(KEY_LENGTH);
+      await writeVaultFile(await wrapKey(key, passcode));
+      await setAttempts(NO_FAILED_ATTEMPTS);
+      dataKey = key;
+      setStatus('unlocked');
+    },
+
+    /** False when the passcode is wrong. Rejects with a VaultThrottledError while a wait after earlier failures runs. */
+    async unlock(passcode: string) {
+      const retryAt = unlockAllowedAt(attempts);
+      if (retryAt !== null) throw createVaultThrottledError(retryAt);
+      const file = await readVaultFile();
+      if (!file) throw new Error('No passcode has been set');
+      const passcodeKey = await deriveKey(passcode, file.kdf, hexToBytes(file.kdf.salt));
+      try {
+        dataKey = open(passcodeKey, hexToBytes(file.wrappedKey), WRAP_AAD);
+      } catch {
+        await setAttempts(recordFailedAttempt(attempts));
+        return false;
+      } finally {
+        passcodeKey.fill(0);
+      }
+      if (attempts !== NO_FAILED_ATTEMPTS) await setAttempts(NO_FAILED_ATTEMPTS);
+      setStatus('unlocked');
+      return true;
+    },
+
+    async changePasscode(current: string, next: string) {
+      if (next.length < MIN_PASSCODE_LENGTH) throw new Error(`Passcode must be at least ${MIN_PASSCODE_LENGTH} characters`);
+      if (!(await this.unlock(current))) return false;
+      await writeVaultFile(await wrapKey(requireKey(), next));
+      return true;
+    },
+
+    /** Forgets the data key. Overwritten first, so it doesn't linger in the heap. */
+    lock() {
+      dataKey?.fill(0);
+      dataKey = null;
+      if (status === 'unlocked') setStatus('locked');
+    },
+
+    /** Deletes the wrapped key. Everything sealed with it becomes unreadable. */
+    async destroy() {
+      dataKey?.fill(0);
+      dataKey = null;
+      await SecureStore.deleteItemAsync(VAULT_KEY, SECURE_OPTIONS);
+      await deleteAsync(LEGACY_VAULT_PATH, { idempotent: true });
+      await setAttempts(NO_FAILED_ATTEMPTS);
+      setStatus('unset');
+    },
+
+    /** Encrypts a JSON-serialisable value. `context` (e.g. a record id) must be passed again to open it. */
+    sealJSON(value: unknown, context: string): Uint8Array {
+      return seal(requireKey(), utf8ToBytes(JSON.stringify(value)), utf8ToBytes(context));
+    },
+
+    openJSON<T>(sealed: Uint8Array, context: string): T {
+      return JSON.parse(bytesToUtf8(open(requireKey(), sealed, utf8ToBytes(context))));
+    },
+  };
+};
+
+export type Vault = ReturnType<typeof createVault>;
+
+export const vault = createVault();
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { FinalDiagnosis, ProposedDiagnosis } from '@/types/pipeline';
+import { normalizeDiagnosis, parseDiagnosisList, proposalFor, rankDifferential } from '@/utils/differential';
+
+test('normalizeDiagnosis strips hedges, punctuation and qualifiers in brackets', () => {
+  assert.equal(normalizeDiagnosis('Possible Pneumonia'), 'pneumonia');
+  assert.equal(normalizeDiagnosis('Rule out pulmonary embolism.'), 'pulmonary embolism');
+  assert.equal(normalizeDiagnosis('R/O  DVT'), 'deep vein thrombosis');
+  assert.equal(normalizeDiagnosis('Suspected MI (STEMI)'), 'myocardial infarction');
+  assert.equal(normalizeDiagnosis('Gastro-oesophageal reflux'), 'gastro oesophageal reflux');
+});
+
+test('normalizeDiagnosis maps synonyms onto one name', () => {
+  for (const phrase of ['GERD', 'GORD', 'acid reflux', 'Gastroesophageal reflux disease']) {
+    assert.equal(normalizeDiagnosis(phrase), 'gastro oesophageal reflux disease');
+  }
+  assert.equal(normalizeDiagnosis('Heart attack'), normalizeDiagnosis('MI'));
+});
+
+test('parseDiagnosisList reads numbered and bulleted lists, one per line', () => {
+  const text = 'Here are the most likely diagnoses:\n1. **Pneumonia**: fever and crackles\n2) Acute bronchitis\n- Heart failure, congestive\n* "Asthma".<|im_end|>';
+  assert.deepEqual(parseDiagnosisList(text), ['Pneumonia', 'Acute bronchitis', 'Heart failure, congestive', 'Asthma']);
+});
+
+test('parseDiagnosisList splits one-line output without breaking qualified names', () => {
+  assert.deepEqual(parseDiagnosisList('Pneumonia, community acquired'), ['Pneumonia, community acquired']);
+  assert.deepEqual(parseDiagnosisList('Diagnoses: Pneumonia, Asthma, PE'), ['Pneumonia', 'Asthma', 'PE']);
+  assert.deepEqual(parseDiagnosisList('1. Pneumonia 2. Asthma 3) Pulmonary embolism'), ['Pneumonia', 'Asthma', 'Pulmonary embolism']);
+  assert.deepEqual(
+    parseDiagnosisList('Asthma, with acute exacerbation; Pneumonia, unspecified'),
+    ['Asthma, with acute exacerbation', 'Pneumonia, unspecified']
+  );
+});
+
+test('rankDifferential merges variants across samples and ranks by votes', async () => {
+  const ranked = await rankDifferential([
+    ['Pneumonia', 'Heart attack', 'Asthma'],
+    ['Possible pneumonia', 'MI'],
+    ['Pneumonia', 'Pulmonary embolism', 'Myocardial infarction', 'Probable MI'],
+  ], { size: 3 });
+  assert.deepEqual(ranked, [
+    { phrase: 'Pneumonia', votes: 3, frequency: 1 },
+    { phrase: 'Heart attack', votes: 3, frequency: 1 },
+    // Ties go to the one listed earlier
+    { phrase: 'Pulmonary embolism', votes: 1, frequency: 1 / 3 },
+  ]);
+});
+
+test('rankDifferential merges differently worded phrases on their concept', async () => {
+  const concepts: Record<string, string> = { 'chest infection': '233604007', 'pneumonia': '233604007' };
+  const ranked = await rankDifferential([['Chest infection'], ['Pneumonia'], ['Pneumonia', 'Asthma']], {
+    size: 5,
+    resolveConcept: async phrase => concepts[phrase] ?? null,
+  });
+  assert.deepEqual(ranked, [
+    { phrase: 'Pneumonia', votes: 3, frequency: 1, snomed_id: '233604007' },
+    { phrase: 'Asthma', votes: 1, frequency: 1 / 3 },
+  ]);
+});
+
+const proposals: ProposedDiagnosis[] = [
+  { phrase: 'Pneumonia', votes: 4, frequency: 0.8, snomed_id: '233604007' },
+  { phrase: 'Pulmonary embolism', votes: 2, frequency: 0.4, snomed_id: '59282003' },
+  { phrase: 'Heart attack', votes: 1, frequency: 0.2 },
+];
+
+const diagnosis = (phrase: string, ids: string[] = []): FinalDiagnosis =>
+  ({ phrase, chosen_snomed_ids: ids, confidence: 0.5, explanation: '' });
+
+test('matches reordered diagnoses by phrase, not position', () => {
+  assert.equal(proposalFor(diagnosis('pulmonary embolism'), proposals)?.frequency, 0.4);
+  assert.equal(proposalFor(diagnosis('Possible pneumonia'), proposals)?.frequency, 0.8);
+  assert.equal(proposalFor(diagnosis('MI'), proposals)?.frequency, 0.2);
+});
+
+test('falls back to the concept the proposal was merged on', () => {
+  assert.equal(proposalFor(diagnosis('Community acquired lung infection', ['233604007']), proposals)?.frequency, 0.8);
+});
+
+test('returns null for a diagnosis the explain step made up', () => {
+  assert.equal(proposalFor(diagnosis('Costochondritis', ['64109004']), proposals), null);
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { test } from 'node:test';
+import { FhirCondition } from '@/types/fhir';
+import { FinalDiagnosis } from '@/types/pipeline';
+import { buildFhirBundle, validateFhirBundle } from '@/utils/fhir';
+import { withClinicianConcept } from '@/utils/grounding';
+import { emptyPatientData } from '@/utils/patientData';
+
+const pneumonia: FinalDiagnosis = {
+  phrase: 'Pneumonia',
+  chosen_snomed_ids: ['233604007'],
+  confidence: 0.82,
+  explanation: 'Fever, productive cough and focal crackles.',
+  confidence_components: { retrieval: 0.9, agreement: 0.67, token_probability: null },
+  corrected: true,
+  grounding_note: 'invented id; using best candidate 233604007',
+};
+
+const conditionOf = (diagnosis: FinalDiagnosis) => {
+  const bundle = buildFhirBundle({ patientData: emptyPatientData('Cough'), diagnoses: [diagnosis], recordedAt: Date.UTC(2026, 0, 5), newUuid: randomUUID });
+  assert.deepEqual(validateFhirBundle(bundle), []);
+  return bundle.entry.map(e => e.resource).find((r): r is FhirCondition => r.resourceType === 'Condition')!;
+};
+
+test('a clinician-chosen concept drops what was computed for the model\'s one', () => {
+  const chosen = withClinicianConcept(pneumonia, '385093006');
+  assert.deepEqual(chosen.chosen_snomed_ids, ['385093006']);
+  assert.equal(chosen.clinician_selected, true);
+  assert.equal(chosen.model_snomed_id, '233604007');
+  assert.equal(chosen.confidence_components, undefined);
+  assert.equal(chosen.corrected, undefined);
+  assert.equal(chosen.grounding_note, undefined);
+  // Moving again keeps the model's original choice
+  assert.equal(withClinicianConcept(chosen, '64667001').model_snomed_id, '233604007');
+});
+
+test('the Condition carries the model\'s score only for the model\'s concept', () => {
+  assert.equal(conditionOf(pneumonia).extension?.[0].valueDecimal, 0.82);
+
+  const condition = conditionOf(withClinicianConcept(pneumonia, '385093006'));
+  assert.equal(condition.extension, undefined);
+  assert.deepEqual(condition.code.coding?.[0], { system: 'http://snomed.info/sct', code: '385093006', userSelected: true });
+  assert.ok(condition.note?.some(n => n.text.includes("in place of the model's 233604007")));
+});
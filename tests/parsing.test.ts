@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { CactusLMCompleteParams } from 'cactus-react-native';
+import { createSingleModelRouter } from '@/services/modelRouter';
+import { createOnDeviceBackend, parseJSON } from '@/services/onDevice';
+import { createFakeLM } from '@/services/replayLM';
+
+// Output quirks seen from the small on-device models, and what parseJSON should make of them
+const PATIENT = '{"demographics": {"age": 54, "sex": "male"}, "symptoms": [{"name": "chest pain", "location": "central"}]}';
+const PARSED = { demographics: { age: 54, sex: 'male' }, symptoms: [{ name: 'chest pain', location: 'central' }] };
+
+test('parseJSON drops reasoning blocks, including JSON inside them', () => {
+  assert.deepEqual(parseJSON(`<think>\nMaybe {"symptoms": []}? No, there is pain.\n</think>\n${PATIENT}`), PARSED);
+});
+
+test('parseJSON drops the end-of-turn token', () => {
+  assert.deepEqual(parseJSON(`${PATIENT}<|im_end|>`), PARSED);
+});
+
+test('parseJSON unwraps markdown code fences', () => {
+  assert.deepEqual(parseJSON('```json\n' + PATIENT + '\n```'), PARSED);
+  assert.deepEqual(parseJSON('```\n' + PATIENT + '\n```'), PARSED);
+});
+
+test('parseJSON handles the quirks together, with prose around the JSON', () => {
+  const text = `<think>The patient is 54.</think>\nHere is the extracted data:\n\`\`\`json\n${PATIENT}\n\`\`\`\nLet me know if you need more.<|im_end|>`;
+  assert.deepEqual(parseJSON(text), PARSED);
+});
+
+test('parseJSON strips line comments and bold markers', () => {
+  const text = '{\n  "symptoms": [{"name": "**cough**"}], // main complaint\n  "medications": ["salbutamol"]\n}';
+  assert.deepEqual(parseJSON(text), { symptoms: [{ name: 'cough' }], medications: ['salbutamol'] });
+});
+
+test('parseJSON returns null when there is no JSON to find', () => {
+  assert.equal(parseJSON(''), null);
+  assert.equal(parseJSON('<think>Nothing to extract.</think>'), null);
+});
+
+const transcript = [{ role: 'user' as const, content: 'I am 54 and have central chest pain.' }];
+
+const extractWith = async (modelName: string, responses: string[]) => {
+  const calls: CactusLMCompleteParams[] = [];
+  const lm = createFakeLM(async params => {
+    calls.push(params);
+    return responses[Math.min(calls.length, responses.length) - 1];
+  }, async () => []);
+  const data = await createOnDeviceBackend(createSingleModelRouter(lm, modelName)).chatExtract(transcript);
+  return { data, calls };
+};
+
+test('extraction repairs quirky output into PatientData on the first try', async () => {
+  const { data, calls } = await extractWith('qwen3-0.6', [
+    `<think>Age and one symptom.</think>\n\`\`\`json\n${PATIENT}\n\`\`\`<|im_end|>`,
+  ]);
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].messages.at(-1)?.content, 'I am 54 and have central chest pain. /no_think');
+  assert.deepEqual(data, {
+    demographics: { age: 54, sex: 'male' },
+    symptoms: [{ name: 'chest pain', location: 'central' }],
+    past_medical_history: [],
+    medications: [],
+    red_flags: [],
+    free_text_summary: undefined,
+    extraction_prompts: [{ id: 'extract', version: 1, variant: 'qwen3' }],
+  });
+});
+
+test('extraction asks again when the output is not a JSON object, and stamps the repair prompt', async () => {
+  const { data, calls } = await extractWith('lfm2-vl-1.6b', [
+    'The patient has chest pain.<|im_end|>',
+    '```json\n' + PATIENT + '\n```',
+  ]);
+  assert.equal(calls.length, 2);
+  assert.deepEqual(calls[1].messages.slice(-2).map(m => m.role), ['assistant', 'user']);
+  assert.match(calls[1].messages.at(-1)?.content ?? '', /Output must be a single JSON object\./);
+  assert.deepEqual(data?.symptoms, [{ name: 'chest pain', location: 'central' }]);
+  assert.deepEqual(data?.extraction_prompts, [{ id: 'extract', version: 1 }, { id: 'extract-repair', version: 1 }]);
+});
+
+test('extraction falls back to the reply as a summary, without its reasoning', async () => {
+  const { data, calls } = await extractWith('lfm2-vl-1.6b', ['<think>Unsure.</think>Central chest pain in a 54 year old.']);
+  assert.equal(calls.length, 3);
+  assert.equal(data?.free_text_summary, 'Central chest pain in a 54 year old.');
+  assert.deepEqual(data?.symptoms, []);
+});
+
+test('extraction logs which fields were invalid, never their values', async t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  await extractWith('lfm2-vl-1.6b', [
+    '{"demographics": {"age": "fifty-four", "sex": "bloke"}, "symptoms": [{"name": "chest pain"}]}',
+    PATIENT,
+  ]);
+  const logged = warn.mock.calls.map(call => call.arguments.join(' ')).join('\n');
+  assert.match(logged, /Extraction attempt 1 invalid: 2 problems in age, sex/);
+  assert.doesNotMatch(logged, /bloke|fifty-four/);
+});
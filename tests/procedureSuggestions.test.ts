@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PROCEDURE_RULES, suggestProcedures } from '@/utils/procedureSuggestions';
+import { isValidConceptId } from '@/utils/sctid';
+
+const labels = (phrase: string) => suggestProcedures({ phrase }).map(s => s.label);
+
+test('abbreviations and hedges are normalised before matching', () => {
+  assert.deepEqual(labels('Possible MI'), labels('Myocardial infarction'));
+  assert.ok(labels('Suspected PE').includes('CT scan'));
+});
+
+test('investigations are listed before procedures', () => {
+  const kinds = suggestProcedures({ phrase: 'Acute appendicitis' }).map(s => s.kind);
+  assert.deepEqual(kinds, ['investigation', 'investigation', 'procedure']);
+});
+
+test('a concept suggested by two rules appears once', () => {
+  const ids = suggestProcedures({ phrase: 'Sepsis secondary to pneumonia' }).map(s => s.conceptId);
+  assert.equal(new Set(ids).size, ids.length);
+  assert.ok(ids.includes('30088009'));
+});
+
+test('similar names don\'t match the wrong rule', () => {
+  assert.ok(!labels('Acute cholecystitis').includes('Urinalysis'));
+  assert.deepEqual(labels('Diabetes insipidus'), []);
+  assert.deepEqual(labels('Tension headache'), []);
+});
+
+test('every suggestion is a valid SNOMED concept id', () => {
+  for (const rule of PROCEDURE_RULES) {
+    for (const suggestion of rule.suggestions) assert.ok(isValidConceptId(suggestion.conceptId), suggestion.label);
+  }
+});
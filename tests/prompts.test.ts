@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { renderPrompt } from '@/utils/prompts';
+
+const history = [
+  { role: 'user' as const, content: 'Chest pain since this morning.' },
+  { role: 'assistant' as const, content: 'Does it spread anywhere?' },
+  { role: 'user' as const, content: 'Down my left arm.' },
+];
+
+test('puts the user suffix on the latest turn of the history', () => {
+  const { messages } = renderPrompt('extract', 'qwen3-0.6', {}, history);
+  assert.equal(messages.length, 4);
+  assert.equal(messages[0].role, 'system');
+  assert.equal(messages[3].content, 'Down my left arm. /no_think');
+  assert.equal(messages[1].content, 'Chest pain since this morning.');
+});
+
+test('folds the system text into the first turn of the history', () => {
+  const { messages, stamp } = renderPrompt('extract', 'gemma3-270m', {}, history);
+  assert.deepEqual(messages.map(m => m.role), ['user', 'assistant', 'user']);
+  assert.match(messages[0].content ?? '', /^Extract patient details[\s\S]*\n\nChest pain since this morning\.$/);
+  assert.deepEqual(stamp, { id: 'extract', version: 1, variant: 'gemma' });
+});
+
+test('leaves models without overrides alone', () => {
+  const { messages, stamp } = renderPrompt('extract', 'lfm2-vl-1.6b', {}, history);
+  assert.deepEqual(messages.slice(1), history);
+  assert.deepEqual(stamp, { id: 'extract', version: 1 });
+});
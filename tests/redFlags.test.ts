@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PatientData } from '@/types/pipeline';
+import { emptyPatientData, mergePatientData } from '@/utils/patientData';
+import { withRedFlags } from '@/utils/redFlags';
+
+const withSymptoms = (symptoms: PatientData['symptoms'], red_flags: string[] = []): PatientData =>
+  ({ ...emptyPatientData(), symptoms, red_flags });
+
+const codes = (data: PatientData) => data.rule_red_flags?.map(flag => flag.code);
+
+test('rule flags are kept apart from the model\'s own', () => {
+  const data = withRedFlags(withSymptoms([{ name: 'chest pain', worse_with: 'climbing stairs' }], ['possible ACS']));
+  assert.deepEqual(codes(data), ['RF-CP-EXERTION']);
+  assert.deepEqual(data.red_flags, ['possible ACS']);
+});
+
+test('a rule flag goes once a correction stops its rule firing', () => {
+  const first = withRedFlags(withSymptoms([{ name: 'chest pain', worse_with: 'walking uphill' }]));
+  assert.deepEqual(codes(first), ['RF-CP-EXERTION']);
+
+  // The patient corrects themselves: it comes on at rest, not on exertion
+  const corrected = withRedFlags(mergePatientData(first, withSymptoms([{ name: 'chest pain', worse_with: 'lying flat' }])));
+  assert.deepEqual(codes(corrected), []);
+});
+
+test('rule codes saved in red_flags by earlier versions are moved out', () => {
+  const data = withRedFlags(withSymptoms([{ name: 'cough' }], ['RF-CP-EXERTION', 'haemoptysis']));
+  assert.deepEqual(data.red_flags, ['haemoptysis']);
+  assert.deepEqual(codes(data), []);
+});
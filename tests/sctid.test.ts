@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { hasValidCheckDigit, isValidConceptId } from '@/utils/sctid';
+
+test('accepts known concept ids', () => {
+  for (const id of [
+    '138875005', // SNOMED CT Concept (root)
+    '116680003', // Is a
+    '404684003', // Clinical finding
+    '71388002', // Procedure
+    '64572001', // Disease
+    '195967001', // Asthma
+    '22298006', // Myocardial infarction
+    '233604007', // Pneumonia
+  ]) {
+    assert.ok(isValidConceptId(id), id);
+  }
+});
+
+test('rejects a wrong check digit', () => {
+  assert.equal(hasValidCheckDigit('7061000'), false);
+  assert.equal(isValidConceptId('7061000'), false);
+  assert.equal(isValidConceptId('195967002'), false);
+});
+
+test('rejects description ids and malformed input', () => {
+  // A description id: partition 01
+  assert.equal(isValidConceptId('41398015'), false);
+  assert.equal(isValidConceptId('12345'), false);
+  assert.equal(isValidConceptId('0195967001'), false);
+  assert.equal(isValidConceptId('19596700a'), false);
+});
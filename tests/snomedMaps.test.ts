@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { evaluateMapRule, MapRow, resolveMap } from '@/utils/snomedMaps';
+
+const AGE_RULE = (comparison: string) => `IFA 445518008 | Age at onset of clinical finding (observable entity) | ${comparison}`;
+const MALE_RULE = 'IFA 248153007 | Male (finding) |';
+const DIABETES_RULE = 'IFA 44054006 | Diabetes mellitus type 2 (disorder) |';
+
+const row = (mapPriority: number, mapRule: string, mapTarget: string, extra: Partial<MapRow> = {}): MapRow => ({
+  conceptId: '22298006',
+  mapGroup: 1,
+  mapPriority,
+  mapRule,
+  mapAdvice: mapTarget ? `ALWAYS ${mapTarget}` : '',
+  mapTarget,
+  ...extra,
+});
+
+test('evaluateMapRule converts age units to years', () => {
+  assert.equal(evaluateMapRule(AGE_RULE('< 28.0 days'), { age: 0 }), 'true');
+  assert.equal(evaluateMapRule(AGE_RULE('< 28.0 days'), { age: 1 }), 'false');
+  assert.equal(evaluateMapRule(AGE_RULE('>= 18.0 months'), { age: 2 }), 'true');
+  assert.equal(evaluateMapRule(AGE_RULE('< 15.0 years'), { age: 15 }), 'false');
+  assert.equal(evaluateMapRule(AGE_RULE('< 15.0 years'), {}), 'unknown');
+});
+
+test('evaluateMapRule checks sex, and says unknown without it', () => {
+  assert.equal(evaluateMapRule(MALE_RULE, { sex: 'male' }), 'true');
+  assert.equal(evaluateMapRule(MALE_RULE, { sex: 'female' }), 'false');
+  assert.equal(evaluateMapRule(MALE_RULE, {}), 'unknown');
+  assert.equal(evaluateMapRule(`${MALE_RULE} AND ${AGE_RULE('> 50.0 years')}`, { sex: 'male', age: 40 }), 'false');
+});
+
+test('evaluateMapRule only lets a recorded co-morbidity decide an IFA rule', () => {
+  assert.equal(evaluateMapRule(DIABETES_RULE, { conceptIds: ['44054006'] }), 'true');
+  // Not recorded isn't the same as absent
+  assert.equal(evaluateMapRule(DIABETES_RULE, { conceptIds: ['38341003'] }), 'unknown');
+});
+
+test('evaluateMapRule treats TRUE, OTHERWISE TRUE and an empty rule as always holding', () => {
+  for (const rule of ['TRUE', 'OTHERWISE TRUE', 'otherwise true', '']) assert.equal(evaluateMapRule(rule, {}), 'true');
+});
+
+test('resolveMap takes the first rule that holds in each group', () => {
+  const rows = [
+    row(1, AGE_RULE('< 15.0 years'), 'P29.9'),
+    row(2, 'OTHERWISE TRUE', 'I21.9'),
+    row(1, 'TRUE', 'Z92.2', { mapGroup: 2 }),
+  ];
+  assert.deepEqual(resolveMap(rows, { age: 62 }).map(c => [c.group, c.code, c.needsReview]), [[1, 'I21.9', false], [2, 'Z92.2', false]]);
+  assert.equal(resolveMap(rows, { age: 10 })[0].code, 'P29.9');
+});
+
+test('resolveMap flags a match that an undecidable rule ahead of it may overrule', () => {
+  const [code] = resolveMap([row(1, DIABETES_RULE, 'E11.5'), row(2, 'OTHERWISE TRUE', 'I73.9')], {});
+  assert.equal(code.code, 'E11.5');
+  assert.equal(code.needsReview, true);
+  assert.match(code.reviewReason ?? '', /Rule needs information we don't have/);
+});
+
+test('resolveMap flags the map categories that leave the code to a coder', () => {
+  const [contextDependent] = resolveMap([row(1, 'TRUE', 'R69', { mapAdvice: 'ALWAYS R69', mapCategoryId: '447639009' })]);
+  assert.equal(contextDependent.needsReview, true);
+  assert.equal(contextDependent.reviewReason, 'Map of source concept is context dependent');
+
+  const [unclassified] = resolveMap([row(1, 'TRUE', '', { mapCategoryId: '447638001' })]);
+  assert.equal(unclassified.code, null);
+  assert.equal(unclassified.reviewReason, 'Map source concept cannot be classified with available data');
+
+  const [classified] = resolveMap([row(1, 'TRUE', 'J18.9', { mapCategoryId: '447637006' })]);
+  assert.equal(classified.needsReview, false);
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  FREE_ATTEMPTS,
+  NO_FAILED_ATTEMPTS,
+  parseUnlockAttempts,
+  recordFailedAttempt,
+  unlockAllowedAt,
+  unlockDelayMs,
+  WIPE_OFFER_ATTEMPTS,
+} from '@/utils/unlockThrottle';
+
+test('a few mistypes are free, then the wait doubles up to an hour', () => {
+  assert.deepEqual([0, 1, 2].map(unlockDelayMs), [0, 0, 0]);
+  assert.equal(unlockDelayMs(FREE_ATTEMPTS), 30_000);
+  assert.equal(unlockDelayMs(FREE_ATTEMPTS + 1), 60_000);
+  assert.equal(unlockDelayMs(FREE_ATTEMPTS + 2), 120_000);
+  assert.equal(unlockDelayMs(50), 60 * 60_000);
+});
+
+test('guesses are refused until the wait is over', () => {
+  let attempts = NO_FAILED_ATTEMPTS;
+  for (let i = 0; i < FREE_ATTEMPTS; i++) attempts = recordFailedAttempt(attempts, 1_000);
+  assert.equal(unlockAllowedAt(attempts, 1_000), 31_000);
+  assert.equal(unlockAllowedAt(attempts, 30_999), 31_000);
+  assert.equal(unlockAllowedAt(attempts, 31_000), null);
+  assert.equal(unlockAllowedAt(NO_FAILED_ATTEMPTS), null);
+});
+
+test('an unreadable stored count is treated as the worst case', () => {
+  assert.deepEqual(parseUnlockAttempts(null), NO_FAILED_ATTEMPTS);
+  assert.deepEqual(parseUnlockAttempts('{"failed":4,"lastFailureAt":5}'), { failed: 4, lastFailureAt: 5 });
+  assert.equal(parseUnlockAttempts('{"failed":-1}').failed, WIPE_OFFER_ATTEMPTS);
+  assert.equal(parseUnlockAttempts('garbage').failed, WIPE_OFFER_ATTEMPTS);
+});
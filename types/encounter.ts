@@ -0,0 +1,46 @@
+import { ChatMessage, FinalDiagnosis, InferenceBackendKind, ModelRole, PatientData } from '@/types/pipeline';
+
+// A saved consultation: everything the chat screen needs to pick it up again,
+// plus the settings the differential was built with so a result can be traced.
+
+/** Pipeline configuration at the time the differential was built. */
+export interface EncounterSettings {
+  backend: InferenceBackendKind;
+  /** Model per on-device role. */
+  models: Record<ModelRole, string>;
+  differentialSize: number;
+  proposalSamples: number;
+  confidenceSamples: number;
+}
+
+/** Where the structured interview stands, so a reopened encounter continues it. */
+export interface InterviewState {
+  active: boolean;
+  askedQuestions: string[];
+  /** Number of messages already folded into patientData. */
+  extractedUpTo: number;
+}
+
+export interface Encounter {
+  id: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  patientData: PatientData | null;
+  diagnoses: FinalDiagnosis[];
+  interview: InterviewState;
+  /** Null until the pipeline has run. */
+  settings: EncounterSettings | null;
+}
+
+/** What the encounter list shows, without loading the transcript. */
+export interface EncounterSummary {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  /** First patient turn, shortened. */
+  title: string;
+  /** Phrases of the differential, most likely first. */
+  diagnoses: string[];
+}
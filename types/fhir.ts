@@ -0,0 +1,99 @@
+// The subset of FHIR R4 (https://hl7.org/fhir/R4/) the encounter export writes.
+// Only the elements we fill are declared; everything else in the spec is optional
+// for these resources. Resources carry no id: the bundle is a transaction of
+// creates, so the server assigns ids and entries refer to each other by fullUrl.
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+  userSelected?: boolean;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueDecimal?: number;
+  valueString?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+}
+
+export type FhirGender = 'male' | 'female' | 'other' | 'unknown';
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  gender?: FhirGender;
+}
+
+export interface FhirCondition {
+  resourceType: 'Condition';
+  extension?: FhirExtension[];
+  verificationStatus: FhirCodeableConcept;
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  recordedDate: string;
+  note?: FhirAnnotation[];
+}
+
+export type FhirObservationStatus = 'registered' | 'preliminary' | 'final' | 'amended';
+
+export interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueString: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status: FhirObservationStatus;
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  valueQuantity?: FhirQuantity;
+  component?: FhirObservationComponent[];
+}
+
+export type FhirMedicationStatementStatus =
+  'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  status: FhirMedicationStatementStatus;
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  dateAsserted: string;
+  informationSource: FhirReference;
+}
+
+export type FhirResource = FhirPatient | FhirCondition | FhirObservation | FhirMedicationStatement;
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+  request: { method: 'POST'; url: FhirResource['resourceType'] };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
@@ -1,3 +1,5 @@
+import { PromptStamp } from '@/types/prompts';
+
 export interface Demographics {
   age?: number;
   sex?: string;
@@ -19,14 +21,41 @@ export interface PatientData {
   symptoms: Symptom[];
   past_medical_history: string[];
   medications: string[];
+  /** Red flags as the model worded them: unverified free text, kept apart from the rules' flags. */
   red_flags: string[];
+  /**
+   * Flags of the deterministic rules (utils/redFlags.ts). Recomputed from the whole
+   * consultation after every extraction rather than merged, so a flag whose rule no
+   * longer fires is dropped.
+   */
+  rule_red_flags?: RedFlag[];
   free_text_summary?: string;
+  /** Templates the data was extracted with, oldest first. Absent when the prompt lives on the server. Never sent to a model. */
+  extraction_prompts?: PromptStamp[];
+}
+
+export interface RedFlag {
+  code: string;
+  title: string;
+  rationale: string;
+}
+
+/** An investigation or procedure worth considering for a diagnosis. */
+export interface SuggestedProcedure {
+  /** SNOMED CT procedure concept, which the OPCS-4 codes are mapped from. */
+  conceptId: string;
+  label: string;
+  kind: 'investigation' | 'procedure';
 }
 
 export interface SnomedCandidate {
+  /** Concept id. */
   id: string;
+  /** Preferred term of the concept. */
   term: string;
   score: number;
+  /** Synonym that matched the query, when it isn't the preferred term. */
+  matchedTerm?: string;
 }
 
 export interface DiagnosisCandidate {
@@ -34,15 +63,81 @@ export interface DiagnosisCandidate {
   candidates: SnomedCandidate[];
 }
 
+/** One entry of the proposed differential, ranked by votes across sampled completions. */
+export interface ProposedDiagnosis {
+  phrase: string;
+  /** Samples that proposed this diagnosis or one of its variants. */
+  votes: number;
+  /** votes / samples. Absent when the backend doesn't sample. */
+  frequency?: number;
+  /** SNOMED concept the variants were merged on, when one was found. */
+  snomed_id?: string;
+  /** Template that produced the samples. Absent when the prompt lives on the server. */
+  prompt?: PromptStamp;
+}
+
+/** Signals behind a calibrated confidence, each 0-1. Null when the backend didn't provide it. */
+export interface ConfidenceComponents {
+  /** Retrieval score of the chosen concept among the candidates for the phrase. */
+  retrieval: number | null;
+  /** Share of sampled completions that chose the same concept. */
+  agreement: number | null;
+  /** Mean token probability of the answer, where the backend exposes it. */
+  token_probability: number | null;
+  /** The number the model wrote itself. Shown for reference, never used. */
+  stated?: number;
+}
+
 export interface FinalDiagnosis {
   phrase: string;
   chosen_snomed_ids: string[];
   confidence: number;
   explanation: string;
+  confidence_components?: ConfidenceComponents;
+  /** Share of sampled differentials that proposed this diagnosis. */
+  vote_frequency?: number;
+  /** Set when the model's SNOMED choice failed grounding and was replaced. */
+  corrected?: boolean;
+  grounding_note?: string;
+  /** Template the model mapped this diagnosis with. Absent for the retrieval fallback and for server prompts. */
+  prompt?: PromptStamp;
+  /** Template that proposed the diagnosis. */
+  proposal_prompt?: PromptStamp;
+  /**
+   * Set when the clinician replaced the model's concept. `confidence` was computed for
+   * the model's concept and no longer applies, so it is neither shown nor exported.
+   */
+  clinician_selected?: boolean;
+  /** The concept the model chose, kept once the clinician has replaced it. */
+  model_snomed_id?: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  /** Pipeline output shown in the chat (extracted data, diagnosis lists). Never sent to a model. */
+  system?: boolean;
+}
+
+
+export type InferenceBackendKind = 'on-device' | 'remote' | 'hybrid';
+
+/** What an on-device model is used for. Each role can run on a different model. */
+export type ModelRole = 'extraction' | 'reasoning' | 'embedding';
+
+// Per-call hooks a screen can pass to any backend stage.
+export interface StageOptions {
+  /** Receives raw model output as it is generated, including any <think> blocks. */
+  onToken?: (token: string) => void;
+  /** Aborts the in-flight model call or request; the stage then rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
+// Common surface for every place inference can run. Screens talk to this
+// and never to cactusLM or the HTTP routes directly.
+export interface ClinicalBackend {
+  kind: InferenceBackendKind;
+  chatExtract(history: ChatMessage[], options?: StageOptions): Promise<PatientData | null>;
+  proposeDiagnoses(data: PatientData, options?: StageOptions): Promise<ProposedDiagnosis[]>;
+  explainAndMap(data: PatientData, diagnoses: string[], options?: StageOptions): Promise<FinalDiagnosis[]>;
+}
@@ -0,0 +1,39 @@
+// Prompt templates sent to on-device models. Templates are named and versioned
+// so every result can say which wording produced it; bump the version whenever
+// the text changes. Placeholders are written {{name}}.
+
+export type PromptId = 'extract' | 'extract-repair' | 'propose' | 'explain';
+
+export interface PromptMessageTemplate {
+  role: 'system' | 'user';
+  content: string;
+}
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  messages: PromptMessageTemplate[];
+}
+
+/** How a model family's chat template differs from the usual system/user layout. */
+export interface PromptFormat {
+  /** The model has no system role: system text is prepended to the first user turn. */
+  foldSystem?: boolean;
+  /** Appended to the last user turn, e.g. a switch that turns off a reasoning mode. */
+  userSuffix?: string;
+}
+
+/** Overrides for models whose name starts with the key they are registered under. */
+export interface ModelPromptOverrides {
+  format?: PromptFormat;
+  /** Replacement templates. They keep the id and carry their own version. */
+  templates?: Partial<Record<PromptId, Omit<PromptTemplate, 'id'>>>;
+}
+
+/** Which template produced a result. */
+export interface PromptStamp {
+  id: PromptId;
+  version: number;
+  /** Override key applied for the model, when one was. */
+  variant?: string;
+}
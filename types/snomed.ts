@@ -0,0 +1,25 @@
+// SNOMED CT concepts and their descriptions, as stored in snomed.db by
+// scripts/build_snomed_db.py. A concept has many descriptions: one fully
+// specified name (FSN) and several synonyms, one of which the language refset
+// marks as preferred. The app shows the preferred term.
+
+export interface SnomedConcept {
+  id: string;
+  active: boolean;
+  /** Fully specified name, e.g. "Pneumonia (disorder)". Null when the release had none. */
+  fsn: string | null;
+  preferredTerm: string;
+}
+
+export type DescriptionAcceptability = 'preferred' | 'acceptable';
+
+export interface SnomedDescription {
+  id: string;
+  conceptId: string;
+  term: string;
+  active: boolean;
+  typeId: string;
+  languageCode: string;
+  /** Acceptability in the configured language refset; null when not in that dialect. */
+  acceptability: DescriptionAcceptability | null;
+}
@@ -0,0 +1,15 @@
+// Helpers for cancelling pipeline stages. React Native's AbortSignal polyfill
+// doesn't implement throwIfAborted(), so we build the error ourselves.
+
+export const createAbortError = () => {
+  const error = new Error('Pipeline run was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (err: unknown) =>
+  err instanceof Error && err.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
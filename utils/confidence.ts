@@ -0,0 +1,86 @@
+import { ConfidenceComponents, DiagnosisCandidate, FinalDiagnosis } from '@/types/pipeline';
+import { candidatesFor, normalizePhrase } from '@/utils/grounding';
+
+// Confidence shown to clinicians is computed from measurable signals rather than
+// the number the model writes: how well the chosen concept was retrieved, how
+// often independent samples chose the same concept, and token probabilities when
+// the backend reports them. The signals are combined by a logistic model fitted
+// on labelled runs with scripts/fit_calibration.py; missing signals take the
+// training mean so they neither raise nor lower the score. Until weights have been
+// fitted the result is only a score that ranks diagnoses, not a probability, and
+// screens and exports must say so (CONFIDENCE_IS_CALIBRATED).
+
+interface Calibration {
+  source: string;
+  /** False for the shipped defaults; fit_calibration.py sets it. */
+  fitted: boolean;
+  intercept: number;
+  weights: Record<CalibrationFeature, number>;
+  means: Record<CalibrationFeature, number>;
+}
+
+type CalibrationFeature = 'retrieval' | 'agreement' | 'token_probability';
+
+const FEATURES: CalibrationFeature[] = ['retrieval', 'agreement', 'token_probability'];
+
+const calibration: Calibration = require('@/constants/calibration.json');
+
+/** Whether the confidence score is a fitted probability rather than an uncalibrated score. */
+export const CONFIDENCE_IS_CALIBRATED = calibration.fitted === true;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Probability that the chosen concept is right, once fitted; a 0-1 ranking score before that. */
+export const calibrateConfidence = (components: ConfidenceComponents) => {
+  let z = calibration.intercept;
+  for (const feature of FEATURES) {
+    const value = components[feature];
+    z += calibration.weights[feature] * (value === null ? calibration.means[feature] : clamp01(value));
+  }
+  return 1 / (1 + Math.exp(-z));
+};
+
+/**
+ * For each diagnosis, the share of samples whose first chosen id matches it.
+ * Samples are matched to diagnoses by phrase, then by position. A sample that
+ * failed to parse counts as disagreeing.
+ */
+export const sampleAgreement = (diagnoses: FinalDiagnosis[], samples: FinalDiagnosis[][]): number[] =>
+  diagnoses.map((diagnosis, index) => {
+    const chosen = diagnosis.chosen_snomed_ids[0];
+    if (!chosen) return 0;
+    let agreeing = 1; // the diagnosis itself is one of the samples
+    for (const sample of samples) {
+      const match = sample.find(d => normalizePhrase(String(d.phrase ?? '')) === normalizePhrase(diagnosis.phrase)) ?? sample[index];
+      const ids = Array.isArray(match?.chosen_snomed_ids) ? match.chosen_snomed_ids.map(String) : [];
+      if (ids[0] === chosen) agreeing++;
+    }
+    return agreeing / (samples.length + 1);
+  });
+
+/**
+ * Replaces each diagnosis' confidence with the calibrated score. `agreement` is
+ * per diagnosis (see sampleAgreement); token probabilities already reported by
+ * the backend are kept.
+ */
+export const withCalibratedConfidence = (
+  diagnoses: FinalDiagnosis[],
+  mapped: DiagnosisCandidate[],
+  agreement?: number[]
+): FinalDiagnosis[] =>
+  diagnoses.map((diagnosis, index) => {
+    const chosen = diagnosis.chosen_snomed_ids[0];
+    const candidate = candidatesFor(diagnosis.phrase, index, mapped).find(c => c.id === chosen);
+    const components: ConfidenceComponents = {
+      retrieval: candidate ? clamp01(candidate.score) : chosen ? null : 0,
+      agreement: agreement?.[index] ?? null,
+      token_probability: diagnosis.confidence_components?.token_probability ?? null,
+      stated: typeof diagnosis.confidence === 'number' ? diagnosis.confidence : undefined,
+    };
+    return {
+      ...diagnosis,
+      // Nothing chosen means nothing to be confident in
+      confidence: chosen ? calibrateConfidence(components) : 0,
+      confidence_components: components,
+    };
+  });
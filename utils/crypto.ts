@@ -0,0 +1,52 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { getRandomBytes } from 'expo-crypto';
+
+// Primitives for the at-rest encryption of patient data. Keys come from scrypt
+// (memory-hard, so guessing a short passcode offline is slow) and data is sealed
+// with XChaCha20-Poly1305, whose 24-byte nonces are safe to pick at random and
+// whose tag rejects any tampered or mis-keyed ciphertext. Nonces come from the
+// platform CSPRNG through expo-crypto, since Hermes has no crypto.getRandomValues.
+
+export interface KdfParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  /** Hex. */
+  salt: string;
+}
+
+// About a second on a mid-range phone; stored with the vault so it can be raised later
+export const DEFAULT_KDF: Omit<KdfParams, 'salt'> = { name: 'scrypt', N: 2 ** 15, r: 8, p: 1 };
+
+export const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+// Leading byte of every sealed value, so the format can change without guessing
+const FORMAT_VERSION = 1;
+
+export const randomBytes = (length: number) => getRandomBytes(length);
+
+export const deriveKey = (passcode: string, params: KdfParams, salt: Uint8Array) =>
+  scryptAsync(passcode.normalize('NFKC'), salt, { N: params.N, r: params.r, p: params.p, dkLen: KEY_LENGTH });
+
+/**
+ * Encrypts and authenticates `plaintext`. `aad` is authenticated but not
+ * encrypted: binding a record's id there stops ciphertext being moved between rows.
+ */
+export const seal = (key: Uint8Array, plaintext: Uint8Array, aad?: Uint8Array): Uint8Array => {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const ciphertext = xchacha20poly1305(key, nonce, aad).encrypt(plaintext);
+  const sealed = new Uint8Array(1 + NONCE_LENGTH + ciphertext.length);
+  sealed[0] = FORMAT_VERSION;
+  sealed.set(nonce, 1);
+  sealed.set(ciphertext, 1 + NONCE_LENGTH);
+  return sealed;
+};
+
+/** Reverses seal(). Throws when the key or aad is wrong or the data was modified. */
+export const open = (key: Uint8Array, sealed: Uint8Array, aad?: Uint8Array): Uint8Array => {
+  if (sealed[0] !== FORMAT_VERSION) throw new Error(`Unknown sealed data format ${sealed[0]}`);
+  const nonce = sealed.subarray(1, 1 + NONCE_LENGTH);
+  return xchacha20poly1305(key, nonce, aad).decrypt(sealed.subarray(1 + NONCE_LENGTH));
+};
@@ -0,0 +1,168 @@
+import { FinalDiagnosis, ProposedDiagnosis } from '@/types/pipeline';
+
+// Self-consistency for the differential: several sampled diagnosis lists are
+// normalised, variants of the same diagnosis are merged (by wording, known
+// synonyms and, when a resolver is given, the SNOMED concept they map to) and
+// the result is ranked by how many samples proposed each one.
+
+// Common abbreviations and lay terms, mapped to the name we vote under
+const SYNONYMS: Record<string, string> = {
+  'mi': 'myocardial infarction',
+  'heart attack': 'myocardial infarction',
+  'acs': 'acute coronary syndrome',
+  'pe': 'pulmonary embolism',
+  'dvt': 'deep vein thrombosis',
+  'copd': 'chronic obstructive pulmonary disease',
+  'uti': 'urinary tract infection',
+  'gerd': 'gastro oesophageal reflux disease',
+  'gord': 'gastro oesophageal reflux disease',
+  'gastroesophageal reflux disease': 'gastro oesophageal reflux disease',
+  'acid reflux': 'gastro oesophageal reflux disease',
+  'chf': 'heart failure',
+  'congestive heart failure': 'heart failure',
+  'cva': 'stroke',
+  'tia': 'transient ischaemic attack',
+  'transient ischemic attack': 'transient ischaemic attack',
+  'uri': 'upper respiratory tract infection',
+  'upper respiratory infection': 'upper respiratory tract infection',
+  'af': 'atrial fibrillation',
+  'afib': 'atrial fibrillation',
+};
+
+// Hedges that don't change which diagnosis is meant
+const HEDGES = /^(possible|probable|suspected|likely|query|rule out|r\/o|consider)\s+/;
+
+// Returns null when nothing confident was found
+export type ConceptResolver = (phrase: string) => Promise<string | null>;
+
+export interface DifferentialOptions {
+  /** How many diagnoses to return. */
+  size: number;
+  /** Maps a phrase to a SNOMED concept id so differently worded variants merge. */
+  resolveConcept?: ConceptResolver;
+}
+
+/** Lower-cased, punctuation-free name with hedges removed and synonyms applied. */
+export const normalizeDiagnosis = (phrase: string) => {
+  const normalized = phrase
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z0-9/ ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(HEDGES, '');
+  return SYNONYMS[normalized] ?? normalized;
+};
+
+// A comma-separated fragment that only qualifies the diagnosis before it, as in
+// "Pneumonia, community acquired", rather than naming another one
+const QUALIFIER = /^((community|hospital|ventilator)[ -]acquired|unspecified|nos|not otherwise specified|(left|right|bilateral)( sided)?|acute|chronic|recurrent|mild|moderate|severe|primary|secondary|type \d\w*|with(out)? .+)$/i;
+
+// Items of a diagnosis list written on one line: numbered inline ("1. A 2. B"),
+// else separated by semicolons, else by commas with qualifiers kept on their diagnosis
+const splitOneLine = (line: string) => {
+  const body = line.replace(/^[^:]*:\s*(?=\S)/, '');
+  if (/^\d+[.)]\s/.test(body)) return body.split(/\s+(?=\d+[.)]\s)/);
+  if (body.includes(';')) return body.split(';');
+  const items: string[] = [];
+  for (const part of body.split(',')) {
+    if (items.length > 0 && QUALIFIER.test(part.trim().replace(/[.*_]+$/, ''))) items[items.length - 1] += `,${part}`;
+    else items.push(part);
+  }
+  return items;
+};
+
+/**
+ * Splits a model's diagnosis list. One diagnosis per line is asked for, so
+ * commas inside a name survive; a single line is still split because small
+ * models often ignore the instruction (see splitOneLine).
+ */
+export const parseDiagnosisList = (text: string): string[] => {
+  // Remove potential tokens like <|im_end|> which might leak
+  const cleaned = text.replace(/<\|im_end\|>/g, '').trim();
+  const lines = cleaned.split('\n').map(line => line.trim()).filter(Boolean);
+  // Drop "Here are..." preambles
+  if (lines.length > 1 && /:\s*$/.test(lines[0])) lines.shift();
+  const items = lines.length === 1 ? splitOneLine(lines[0]) : lines;
+
+  return items.map(item => {
+    // Remove "1.", "-", "*" etc
+    let clean = item.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim();
+    // Remove everything after a colon (often the explanation)
+    // e.g. "Angina Pectoris: This is a..." -> "Angina Pectoris"
+    clean = clean.split(':')[0].trim();
+    // Remove surrounding quotes and markdown emphasis
+    return clean.replace(/^['"*_]+|['"*_.]+$/g, '').trim();
+  }).filter(d => d.length > 1);
+};
+
+/** Ranks diagnoses by the number of samples that proposed them. */
+export const rankDifferential = async (samples: string[][], { size, resolveConcept }: DifferentialOptions): Promise<ProposedDiagnosis[]> => {
+  const conceptCache = new Map<string, Promise<string | null>>();
+  const resolve = (normalized: string) => {
+    if (!resolveConcept) return Promise.resolve(null);
+    if (!conceptCache.has(normalized)) conceptCache.set(normalized, resolveConcept(normalized).catch(() => null));
+    return conceptCache.get(normalized)!;
+  };
+
+  interface Cluster {
+    votes: number;
+    positions: number[];
+    surfaces: Map<string, number>;
+    firstSeen: number;
+    conceptId: string | null;
+  }
+  const clusters = new Map<string, Cluster>();
+  let seen = 0;
+
+  for (const sample of samples) {
+    const votedInSample = new Set<string>();
+    for (let position = 0; position < sample.length; position++) {
+      const phrase = sample[position];
+      const normalized = normalizeDiagnosis(phrase);
+      if (!normalized) continue;
+      const conceptId = await resolve(normalized);
+      const key = conceptId ? `concept:${conceptId}` : `text:${normalized}`;
+      // A sample votes once per diagnosis however many variants it lists
+      if (votedInSample.has(key)) continue;
+      votedInSample.add(key);
+
+      const cluster: Cluster = clusters.get(key) ?? { votes: 0, positions: [], surfaces: new Map(), firstSeen: seen++, conceptId };
+      cluster.votes++;
+      cluster.positions.push(position);
+      cluster.surfaces.set(phrase, (cluster.surfaces.get(phrase) ?? 0) + 1);
+      clusters.set(key, cluster);
+    }
+  }
+
+  const meanPosition = (c: Cluster) => c.positions.reduce((sum, p) => sum + p, 0) / c.positions.length;
+
+  return Array.from(clusters.values())
+    // Most votes first; among equals, the one models listed earlier, then the one seen first
+    .sort((a, b) => b.votes - a.votes || meanPosition(a) - meanPosition(b) || a.firstSeen - b.firstSeen)
+    .slice(0, size)
+    .map(cluster => {
+      // Show the wording the samples used most
+      const [phrase] = Array.from(cluster.surfaces.entries()).sort((a, b) => b[1] - a[1])[0];
+      return {
+        phrase,
+        votes: cluster.votes,
+        frequency: samples.length > 0 ? cluster.votes / samples.length : 0,
+        ...(cluster.conceptId ? { snomed_id: cluster.conceptId } : {}),
+      };
+    });
+};
+
+/**
+ * The proposal a mapped diagnosis came from, so its vote share and prompt can be
+ * shown with it. The explain step is a model call that may reword, reorder, merge
+ * or drop diagnoses, so position means nothing: match on the normalised phrase,
+ * then on the concept the proposal's variants were merged on. Null when neither
+ * matches, rather than borrowing another diagnosis' votes.
+ */
+export const proposalFor = (diagnosis: FinalDiagnosis, proposals: ProposedDiagnosis[]): ProposedDiagnosis | null => {
+  const phrase = normalizeDiagnosis(diagnosis.phrase);
+  return proposals.find(p => normalizeDiagnosis(p.phrase) === phrase)
+    ?? proposals.find(p => p.snomed_id !== undefined && diagnosis.chosen_snomed_ids.includes(p.snomed_id))
+    ?? null;
+};
@@ -0,0 +1,148 @@
+import * as SQLite from 'expo-sqlite';
+import { vault } from '@/services/vault';
+import { Encounter, EncounterSummary } from '@/types/encounter';
+
+// Saved consultations in their own database, separate from the read-only SNOMED
+// one. Everything that identifies the patient is sealed by the vault: the whole
+// encounter in one blob, and the list entry with its search text in another, so
+// the list never has to decrypt every transcript. Only the id and timestamps are
+// stored in the clear, to order the list. Search runs after decryption.
+
+const DB_NAME = 'encounters.db';
+
+const TITLE_LENGTH = 80;
+
+interface SealedRow {
+  id: string;
+  created_at: number;
+  updated_at: number;
+  summary: Uint8Array;
+}
+
+interface SealedSummary {
+  title: string;
+  diagnoses: string[];
+  searchText: string;
+}
+
+let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Encounters saved before encryption was added sit in a plaintext table. They are
+// sealed on the first open after unlocking and the old table is dropped.
+const migratePlaintext = async (db: SQLite.SQLiteDatabase) => {
+  const legacy = await db.getFirstAsync<{ name: string }>(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'encounters'`);
+  if (!legacy) return;
+  const rows = await db.getAllAsync<{ body: string }>('SELECT body FROM encounters');
+  await db.withTransactionAsync(async () => {
+    for (const row of rows) await writeEncounter(db, JSON.parse(row.body));
+    await db.execAsync('DROP TABLE encounters');
+  });
+  // secure_delete zeroes the freed pages; VACUUM rebuilds the file without them
+  await db.execAsync('VACUUM');
+  console.log(`Encrypted ${rows.length} saved encounters`);
+};
+
+const getEncounterDb = () => {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DB_NAME);
+      await db.execAsync(`
+        PRAGMA secure_delete = ON;
+        CREATE TABLE IF NOT EXISTS sealed_encounters (
+          id TEXT PRIMARY KEY,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          summary BLOB NOT NULL,
+          body BLOB NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS sealed_encounters_updated ON sealed_encounters (updated_at DESC);
+      `);
+      await migratePlaintext(db);
+      return db;
+    })();
+    // A failed open (or one attempted while locked) is retried on the next call instead of being cached
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const newEncounterId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const titleOf = (encounter: Encounter) => {
+  const first = encounter.messages.find(m => m.role === 'user' && !m.system)?.content.trim() ?? '';
+  if (!first) return 'Untitled encounter';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+};
+
+// Patient turns, symptoms and diagnoses; the pipeline's own bubbles would match everything
+const searchTextOf = (encounter: Encounter) => [
+  ...encounter.messages.filter(m => m.role === 'user').map(m => m.content),
+  ...(encounter.patientData?.symptoms.map(s => s.name) ?? []),
+  ...(encounter.patientData?.past_medical_history ?? []),
+  ...encounter.diagnoses.map(d => d.phrase),
+].join('\n').toLowerCase();
+
+const writeEncounter = async (db: SQLite.SQLiteDatabase, encounter: Encounter) => {
+  const summary: SealedSummary = {
+    title: titleOf(encounter),
+    diagnoses: encounter.diagnoses.map(d => d.phrase),
+    searchText: searchTextOf(encounter),
+  };
+  await db.runAsync(
+    `INSERT OR REPLACE INTO sealed_encounters (id, created_at, updated_at, summary, body)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      encounter.id,
+      encounter.createdAt,
+      encounter.updatedAt,
+      vault.sealJSON(summary, `${encounter.id}:summary`),
+      vault.sealJSON(encounter, `${encounter.id}:body`),
+    ]
+  );
+};
+
+/** Inserts or replaces an encounter. */
+export const saveEncounter = async (encounter: Encounter) => {
+  await writeEncounter(await getEncounterDb(), encounter);
+};
+
+/** Most recently updated first. Every word of `query` must appear somewhere in the encounter. */
+export const listEncounters = async (query = ''): Promise<EncounterSummary[]> => {
+  const db = await getEncounterDb();
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const rows = await db.getAllAsync<SealedRow>(
+    'SELECT id, created_at, updated_at, summary FROM sealed_encounters ORDER BY updated_at DESC'
+  );
+  return rows
+    .map(row => ({ row, summary: vault.openJSON<SealedSummary>(row.summary, `${row.id}:summary`) }))
+    .filter(({ summary }) => words.every(w => summary.searchText.includes(w)))
+    .map(({ row, summary }) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      title: summary.title,
+      diagnoses: summary.diagnoses,
+    }));
+};
+
+export const getEncounter = async (id: string): Promise<Encounter | null> => {
+  const db = await getEncounterDb();
+  const row = await db.getFirstAsync<{ body: Uint8Array }>('SELECT body FROM sealed_encounters WHERE id = ?', [id]);
+  return row ? vault.openJSON<Encounter>(row.body, `${id}:body`) : null;
+};
+
+export const deleteEncounter = async (id: string) => {
+  const db = await getEncounterDb();
+  await db.runAsync('DELETE FROM sealed_encounters WHERE id = ?', [id]);
+};
+
+/** Closes and deletes the database file. Part of the secure wipe. */
+export const deleteEncounterStore = async () => {
+  const db = await dbPromise?.catch(() => null);
+  dbPromise = null;
+  await db?.closeAsync();
+  await SQLite.deleteDatabaseAsync(DB_NAME).catch(err => {
+    // Never created, nothing to delete
+    if (!String(err).includes('not found')) throw err;
+  });
+};
@@ -0,0 +1,306 @@
+import { PipelineConfig } from '@/constants/config';
+import {
+  FhirBundle, FhirBundleEntry, FhirCodeableConcept, FhirCoding, FhirCondition, FhirGender,
+  FhirMedicationStatement, FhirObservation, FhirObservationComponent, FhirPatient, FhirResource,
+} from '@/types/fhir';
+import { FinalDiagnosis, PatientData, Symptom } from '@/types/pipeline';
+import { CONFIDENCE_IS_CALIBRATED } from '@/utils/confidence';
+import { isValidConceptId } from '@/utils/sctid';
+import { DiagnosisCode } from '@/utils/snomedMaps';
+
+// Converts an encounter into a FHIR R4 transaction Bundle for an EHR, and checks
+// the result against the R4 rules for the elements we write before it leaves the
+// device. Everything here comes from a model and nobody has confirmed it yet, so
+// conditions are differential (or provisional when there is only one) and
+// observations preliminary. There are no identifiers: the Patient is anonymous
+// and the receiving system links it to its own record.
+
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+export const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const VERIFICATION_STATUS_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+
+export const CONFIDENCE_EXTENSION_URL = `${PipelineConfig.fhirExtensionBase}/diagnosis-confidence`;
+// Until the confidence weights are fitted the number only ranks the differential;
+// a receiver reading diagnosis-confidence would take it for a probability
+export const SCORE_EXTENSION_URL = `${PipelineConfig.fhirExtensionBase}/diagnosis-score`;
+const SCORE_EXTENSIONS = [CONFIDENCE_EXTENSION_URL, SCORE_EXTENSION_URL];
+
+// FHIR Patient has no age element; age is recorded as a LOINC "Age" observation
+const AGE_CODE: FhirCoding = { system: LOINC_SYSTEM, code: '30525-0', display: 'Age' };
+
+const SYMPTOM_ATTRIBUTES: [keyof Symptom, string][] = [
+  ['onset', 'Onset'],
+  ['duration', 'Duration'],
+  ['character', 'Character'],
+  ['location', 'Location'],
+  ['severity', 'Severity'],
+  ['worse_with', 'Aggravating factors'],
+  ['relieved_by', 'Relieving factors'],
+];
+
+export interface FhirExportInput {
+  patientData: PatientData;
+  diagnoses: FinalDiagnosis[];
+  /** When the consultation took place, epoch ms. */
+  recordedAt: number;
+  /** Display terms for the diagnoses' SNOMED concepts, by concept id. */
+  snomedTerms?: Record<string, string>;
+  /** ICD-10 codes mapped from each diagnosis, in the order of `diagnoses`. */
+  icd10?: DiagnosisCode[][];
+  /** Makes the urn:uuid entries reference each other by. */
+  newUuid: () => string;
+}
+
+export const createFhirValidationError = (issues: string[]) => {
+  const error = new Error(`FHIR export is invalid:\n${issues.join('\n')}`);
+  error.name = 'FhirValidationError';
+  return error;
+};
+
+export const isFhirValidationError = (err: unknown) =>
+  err instanceof Error && err.name === 'FhirValidationError';
+
+// The extraction writes whatever the patient said; FHIR only has four codes
+export const toFhirGender = (sex: string | undefined): FhirGender | undefined => {
+  const value = sex?.trim().toLowerCase();
+  if (!value) return undefined;
+  if (/^(m|male|man|boy)$/.test(value)) return 'male';
+  if (/^(f|female|woman|girl)$/.test(value)) return 'female';
+  if (value === 'unknown') return 'unknown';
+  return 'other';
+};
+
+const toDateTime = (epochMs: number) => new Date(epochMs).toISOString();
+
+const trimmed = (value: string | undefined) => value?.trim() || undefined;
+
+const conditionCode = (diagnosis: FinalDiagnosis, icd10: DiagnosisCode[], snomedTerms: Record<string, string>): FhirCodeableConcept => {
+  const snomed = diagnosis.chosen_snomed_ids.map((code, i): FhirCoding => ({
+    system: SNOMED_SYSTEM,
+    code,
+    ...(snomedTerms[code] ? { display: snomedTerms[code] } : {}),
+    ...(diagnosis.clinician_selected && i === 0 ? { userSelected: true } : {}),
+  }));
+  // Groups without a target code are only notes for the coder
+  const icd = icd10
+    .filter(code => code.code !== null)
+    .map((code): FhirCoding => ({ system: ICD10_SYSTEM, code: code.code as string }));
+  const coding = [...snomed, ...icd];
+  return { ...(coding.length > 0 ? { coding } : {}), text: diagnosis.phrase };
+};
+
+const conditionNotes = (diagnosis: FinalDiagnosis, icd10: DiagnosisCode[]) => [
+  trimmed(diagnosis.explanation),
+  diagnosis.clinician_selected
+    ? `SNOMED concept chosen by the clinician${diagnosis.model_snomed_id ? ` in place of the model's ${diagnosis.model_snomed_id}` : ''}; the explanation was written for the model's choice.`
+    : undefined,
+  diagnosis.corrected && diagnosis.grounding_note ? `SNOMED code corrected: ${diagnosis.grounding_note}` : undefined,
+  ...icd10.filter(code => code.needsReview).map(code => `ICD-10 ${code.code ?? 'code'} needs review: ${code.reviewReason}`),
+].filter((text): text is string => !!text).map(text => ({ text }));
+
+const symptomComponents = (symptom: Symptom): FhirObservationComponent[] =>
+  SYMPTOM_ATTRIBUTES.flatMap(([key, label]) => {
+    const value = trimmed(symptom[key]);
+    return value ? [{ code: { text: label }, valueString: value }] : [];
+  });
+
+/** Builds the Bundle. Run validateFhirBundle on the result before sending it anywhere. */
+export const buildFhirBundle = ({ patientData, diagnoses, recordedAt, snomedTerms = {}, icd10 = [], newUuid }: FhirExportInput): FhirBundle => {
+  const recorded = toDateTime(recordedAt);
+  const entry: FhirBundleEntry[] = [];
+  const add = (resource: FhirResource) => {
+    const fullUrl = `urn:uuid:${newUuid()}`;
+    entry.push({ fullUrl, resource, request: { method: 'POST', url: resource.resourceType } });
+    return { reference: fullUrl };
+  };
+
+  const gender = toFhirGender(patientData.demographics?.sex);
+  const patient: FhirPatient = { resourceType: 'Patient', ...(gender ? { gender } : {}) };
+  const subject = add(patient);
+
+  const age = patientData.demographics?.age;
+  if (age !== undefined) {
+    add({
+      resourceType: 'Observation',
+      status: 'preliminary',
+      code: { coding: [AGE_CODE], text: 'Age' },
+      subject,
+      effectiveDateTime: recorded,
+      valueQuantity: { value: age, unit: 'years', system: UCUM_SYSTEM, code: 'a' },
+    } satisfies FhirObservation);
+  }
+
+  for (const symptom of patientData.symptoms) {
+    const name = trimmed(symptom.name);
+    if (!name) continue;
+    const component = symptomComponents(symptom);
+    add({
+      resourceType: 'Observation',
+      status: 'preliminary',
+      code: { text: name },
+      subject,
+      effectiveDateTime: recorded,
+      ...(component.length > 0 ? { component } : {}),
+    } satisfies FhirObservation);
+  }
+
+  for (const medication of patientData.medications) {
+    const text = trimmed(medication);
+    if (!text) continue;
+    add({
+      resourceType: 'MedicationStatement',
+      // Medications come from the patient's own account of what they take now
+      status: 'active',
+      medicationCodeableConcept: { text },
+      subject,
+      dateAsserted: recorded,
+      informationSource: subject,
+    } satisfies FhirMedicationStatement);
+  }
+
+  const verification = diagnoses.length === 1 ? 'provisional' : 'differential';
+  diagnoses.forEach((diagnosis, i) => {
+    const codes = icd10[i] ?? [];
+    const note = conditionNotes(diagnosis, codes);
+    // The model's score was for its own concept, not the one the clinician chose
+    const score = diagnosis.clinician_selected ? [] : [{
+      url: CONFIDENCE_IS_CALIBRATED ? CONFIDENCE_EXTENSION_URL : SCORE_EXTENSION_URL,
+      valueDecimal: Math.round(diagnosis.confidence * 1000) / 1000,
+    }];
+    add({
+      resourceType: 'Condition',
+      ...(score.length > 0 ? { extension: score } : {}),
+      verificationStatus: { coding: [{ system: VERIFICATION_STATUS_SYSTEM, code: verification }] },
+      category: [{ coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: 'encounter-diagnosis', display: 'Encounter Diagnosis' }] }],
+      code: conditionCode(diagnosis, codes, snomedTerms),
+      subject,
+      recordedDate: recorded,
+      ...(note.length > 0 ? { note } : {}),
+    } satisfies FhirCondition);
+  });
+
+  return { resourceType: 'Bundle', type: 'transaction', timestamp: toDateTime(Date.now()), entry };
+};
+
+// Value sets and formats from the R4 spec for the elements we write
+const GENDERS = ['male', 'female', 'other', 'unknown'];
+const OBSERVATION_STATUSES = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'];
+const MEDICATION_STATUSES = ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'];
+const VERIFICATION_STATUSES = ['unconfirmed', 'provisional', 'differential', 'confirmed', 'refuted', 'entered-in-error'];
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const CODE = /^[^\s]+( [^\s]+)*$/;
+const URI = /^[a-z][a-z0-9+.-]*:\S+$/i;
+const UUID_URN = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// ele-1: no element may be empty. JSON adds: no empty strings, no non-finite numbers.
+const checkPresent = (value: unknown, path: string, issues: string[]) => {
+  if (typeof value === 'string') {
+    if (value.trim() === '') issues.push(`${path}: empty string`);
+  } else if (typeof value === 'number') {
+    if (!Number.isFinite(value)) issues.push(`${path}: not a finite number`);
+  } else if (Array.isArray(value)) {
+    if (value.length === 0) issues.push(`${path}: empty array`);
+    value.forEach((item, i) => checkPresent(item, `${path}[${i}]`, issues));
+  } else if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) issues.push(`${path}: empty object`);
+    for (const [key, v] of entries) checkPresent(v, `${path}.${key}`, issues);
+  } else if (value === null) {
+    issues.push(`${path}: null`);
+  }
+};
+
+const checkCoding = (coding: FhirCoding, path: string, issues: string[]) => {
+  if (!URI.test(coding.system ?? '')) issues.push(`${path}.system: not an absolute URI`);
+  if (!CODE.test(coding.code ?? '')) issues.push(`${path}.code: not a valid code`);
+  if (coding.system === SNOMED_SYSTEM && !isValidConceptId(coding.code)) issues.push(`${path}.code: ${coding.code} is not a SNOMED CT concept id`);
+};
+
+// cod-1 style: a concept needs a coding or text to mean anything
+const checkConcept = (concept: FhirCodeableConcept | undefined, path: string, issues: string[]) => {
+  if (!concept || (!concept.coding?.length && !concept.text)) {
+    issues.push(`${path}: needs a coding or text`);
+    return;
+  }
+  concept.coding?.forEach((coding, i) => checkCoding(coding, `${path}.coding[${i}]`, issues));
+};
+
+const checkReference = (reference: { reference: string } | undefined, path: string, fullUrls: Set<string>, issues: string[]) => {
+  if (!reference?.reference) issues.push(`${path}: missing`);
+  else if (!fullUrls.has(reference.reference)) issues.push(`${path}: ${reference.reference} is not an entry of the bundle`);
+};
+
+const checkDateTime = (value: string | undefined, path: string, issues: string[]) => {
+  if (!DATE_TIME.test(value ?? '')) issues.push(`${path}: not a FHIR dateTime with time zone`);
+};
+
+const checkResource = (resource: FhirResource, path: string, fullUrls: Set<string>, issues: string[]) => {
+  switch (resource.resourceType) {
+    case 'Patient':
+      if (resource.gender !== undefined && !GENDERS.includes(resource.gender)) issues.push(`${path}.gender: ${resource.gender} is not an administrative gender`);
+      break;
+    case 'Condition': {
+      checkConcept(resource.code, `${path}.code`, issues);
+      checkConcept(resource.verificationStatus, `${path}.verificationStatus`, issues);
+      const status = resource.verificationStatus?.coding?.find(c => c.system === VERIFICATION_STATUS_SYSTEM)?.code;
+      if (!status || !VERIFICATION_STATUSES.includes(status)) issues.push(`${path}.verificationStatus: not a condition-ver-status code`);
+      resource.category?.forEach((category, i) => checkConcept(category, `${path}.category[${i}]`, issues));
+      checkReference(resource.subject, `${path}.subject`, fullUrls, issues);
+      checkDateTime(resource.recordedDate, `${path}.recordedDate`, issues);
+      resource.extension?.forEach((extension, i) => {
+        if (!URI.test(extension.url ?? '')) issues.push(`${path}.extension[${i}].url: not an absolute URI`);
+        if (SCORE_EXTENSIONS.includes(extension.url) && !(typeof extension.valueDecimal === 'number' && extension.valueDecimal >= 0 && extension.valueDecimal <= 1)) {
+          issues.push(`${path}.extension[${i}].valueDecimal: score must be between 0 and 1`);
+        }
+      });
+      break;
+    }
+    case 'Observation':
+      if (!OBSERVATION_STATUSES.includes(resource.status)) issues.push(`${path}.status: ${resource.status} is not an observation status`);
+      checkConcept(resource.code, `${path}.code`, issues);
+      checkReference(resource.subject, `${path}.subject`, fullUrls, issues);
+      checkDateTime(resource.effectiveDateTime, `${path}.effectiveDateTime`, issues);
+      if (resource.valueQuantity && !URI.test(resource.valueQuantity.system)) issues.push(`${path}.valueQuantity.system: not an absolute URI`);
+      resource.component?.forEach((component, i) => checkConcept(component.code, `${path}.component[${i}].code`, issues));
+      break;
+    case 'MedicationStatement':
+      if (!MEDICATION_STATUSES.includes(resource.status)) issues.push(`${path}.status: ${resource.status} is not a medication statement status`);
+      checkConcept(resource.medicationCodeableConcept, `${path}.medicationCodeableConcept`, issues);
+      checkReference(resource.subject, `${path}.subject`, fullUrls, issues);
+      checkReference(resource.informationSource, `${path}.informationSource`, fullUrls, issues);
+      checkDateTime(resource.dateAsserted, `${path}.dateAsserted`, issues);
+      break;
+    default:
+      issues.push(`${path}.resourceType: ${(resource as { resourceType?: string }).resourceType} is not exported`);
+  }
+};
+
+/** Problems with the bundle, as "path: problem" lines. Empty when it is valid. */
+export const validateFhirBundle = (bundle: FhirBundle): string[] => {
+  const issues: string[] = [];
+  if (bundle.resourceType !== 'Bundle') issues.push(`Bundle.resourceType: ${bundle.resourceType}`);
+  if (bundle.type !== 'transaction') issues.push(`Bundle.type: ${bundle.type} is not transaction`);
+  checkDateTime(bundle.timestamp, 'Bundle.timestamp', issues);
+  checkPresent(bundle, 'Bundle', issues);
+
+  const fullUrls = new Set<string>();
+  (bundle.entry ?? []).forEach((entry, i) => {
+    const path = `Bundle.entry[${i}]`;
+    if (!UUID_URN.test(entry.fullUrl ?? '')) issues.push(`${path}.fullUrl: not a urn:uuid`);
+    if (fullUrls.has(entry.fullUrl)) issues.push(`${path}.fullUrl: duplicate ${entry.fullUrl}`);
+    fullUrls.add(entry.fullUrl);
+  });
+  (bundle.entry ?? []).forEach((entry, i) => {
+    const path = `Bundle.entry[${i}]`;
+    // bdl-7 (fullUrl unique) above; a transaction entry also needs its request
+    if (entry.request?.method !== 'POST' || entry.request.url !== entry.resource?.resourceType) {
+      issues.push(`${path}.request: expected POST ${entry.resource?.resourceType}`);
+    }
+    if (!entry.resource) issues.push(`${path}.resource: missing`);
+    else checkResource(entry.resource, `${path}.resource`, fullUrls, issues);
+  });
+  return issues;
+};
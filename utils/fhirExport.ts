@@ -0,0 +1,39 @@
+import { randomUUID } from 'expo-crypto';
+// Legacy import to silence deprecation warning until migration to new FileSystem API
+import { cacheDirectory, deleteAsync, writeAsStringAsync } from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { FhirBundle } from '@/types/fhir';
+import { FinalDiagnosis, PatientData } from '@/types/pipeline';
+import { buildFhirBundle, createFhirValidationError, validateFhirBundle } from '@/utils/fhir';
+import { getSnomedConcept } from '@/utils/snomedDb';
+import { getIcd10Codes } from '@/utils/snomedMaps';
+
+// Builds the FHIR Bundle for an encounter with the codes the SNOMED database
+// adds, and hands it to the share sheet as a .json file. The file is plaintext
+// patient data, so it lives in the cache only for as long as the share sheet is open.
+
+/** Validated Bundle for the encounter. Rejects with a FhirValidationError rather than export something an EHR would reject. */
+export const exportEncounterBundle = async (patientData: PatientData, diagnoses: FinalDiagnosis[], recordedAt: number): Promise<FhirBundle> => {
+  const conceptIds = [...new Set(diagnoses.flatMap(d => d.chosen_snomed_ids))];
+  const concepts = await Promise.all(conceptIds.map(getSnomedConcept));
+  const snomedTerms = Object.fromEntries(
+    concepts.filter(concept => concept !== null).map(concept => [concept.id, concept.preferredTerm])
+  );
+  const icd10 = await Promise.all(diagnoses.map(d => getIcd10Codes(d, patientData)));
+
+  const bundle = buildFhirBundle({ patientData, diagnoses, recordedAt, snomedTerms, icd10, newUuid: randomUUID });
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) throw createFhirValidationError(issues);
+  return bundle;
+};
+
+export const shareFhirBundle = async (bundle: FhirBundle, encounterId: string) => {
+  if (!cacheDirectory || !(await Sharing.isAvailableAsync())) throw new Error('Sharing is not available on this device');
+  const path = `${cacheDirectory}encounter-${encounterId}.fhir.json`;
+  await writeAsStringAsync(path, JSON.stringify(bundle, null, 2));
+  try {
+    await Sharing.shareAsync(path, { mimeType: 'application/fhir+json', dialogTitle: 'Export FHIR Bundle', UTI: 'public.json' });
+  } finally {
+    await deleteAsync(path, { idempotent: true });
+  }
+};
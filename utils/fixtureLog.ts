@@ -0,0 +1,43 @@
+import { deleteAsync, documentDirectory, getInfoAsync, readAsStringAsync, writeAsStringAsync } from 'expo-file-system/legacy';
+import type { LMFixture } from '@/services/replayLM';
+
+// Appends recorded LM fixtures to a JSONL file in the app's documents, from
+// where they can be copied off the device and replayed by the evaluation.
+// legacy FileSystem has no append, so each write reads the file back; writes
+// are chained so concurrent completions don't overwrite each other.
+//
+// The file is NOT encrypted: the evaluation replays it as plain JSONL, and it
+// holds every prompt, so the transcripts of whatever consultations ran while
+// recording. It is a development tool for test vignettes; the vault's wipe deletes it.
+
+export const FIXTURE_LOG_PATH = documentDirectory ? `${documentDirectory}lm-fixtures.jsonl` : null;
+
+let pending: Promise<void> = Promise.resolve();
+let warned = false;
+
+export const appendFixture = (fixture: LMFixture) => {
+  const path = FIXTURE_LOG_PATH;
+  if (!path) return;
+  if (!warned) {
+    warned = true;
+    console.warn("Recording LM fixtures in plaintext, outside the encrypted store:", path);
+  }
+  pending = pending
+    .then(async () => {
+      const info = await getInfoAsync(path);
+      const existing = info.exists ? await readAsStringAsync(path) : '';
+      await writeAsStringAsync(path, existing + JSON.stringify(fixture) + '\n');
+    })
+    .catch(err => console.warn("Failed to record LM fixture:", err));
+};
+
+/** Removes the recorded fixtures once any pending append has finished. */
+export const deleteFixtureLog = () => {
+  const path = FIXTURE_LOG_PATH;
+  const deleted = pending.then(async () => {
+    if (path) await deleteAsync(path, { idempotent: true });
+  });
+  // Later appends still run if the delete fails; the caller sees the failure
+  pending = deleted.catch(() => {});
+  return deleted;
+};
@@ -0,0 +1,110 @@
+import { DiagnosisCandidate, FinalDiagnosis, SnomedCandidate } from '@/types/pipeline';
+import { isValidConceptId } from '@/utils/sctid';
+import { isActiveConcept } from '@/utils/snomedDb';
+
+// Grounding guard for model-chosen SNOMED ids. Models happily invent plausible
+// looking codes, so an id is only kept when it is a well-formed concept SCTID,
+// was among the candidates we retrieved for that diagnosis, and exists and is
+// active in the local terminology. Anything else is replaced with the best
+// retrieved candidate and the diagnosis is flagged as corrected.
+
+export const normalizePhrase = (phrase: string) => phrase.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// The model may reword or reorder phrases: match by phrase, then by position,
+// and as a last resort accept anything that was offered.
+export const candidatesFor = (phrase: string, index: number, mapped: DiagnosisCandidate[]): SnomedCandidate[] => {
+  const byPhrase = mapped.find(item => normalizePhrase(item.phrase) === normalizePhrase(phrase));
+  if (byPhrase) return byPhrase.candidates;
+  if (mapped[index]) return mapped[index].candidates;
+  return mapped.flatMap(item => item.candidates);
+};
+
+// Why an id fails grounding, or null when it passes
+const rejectionReason = async (id: string, candidates: SnomedCandidate[]) => {
+  if (!isValidConceptId(id)) return `${id} is not a valid SNOMED concept id`;
+  if (!candidates.some(c => c.id === id)) return `${id} was not among the retrieved candidates`;
+  // Without a usable database, candidate membership is the best check available
+  if (await isActiveConcept(id) === false) return `${id} is not an active concept`;
+  return null;
+};
+
+// Model JSON may carry numbers, a single string or nothing at all
+const toIdList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  if (typeof value === 'string' || typeof value === 'number') return [String(value).trim()];
+  return [];
+};
+
+const groundDiagnosis = async (diagnosis: FinalDiagnosis, index: number, mapped: DiagnosisCandidate[]): Promise<FinalDiagnosis> => {
+  const phrase = String(diagnosis.phrase ?? mapped[index]?.phrase ?? '');
+  const candidates = candidatesFor(phrase, index, mapped);
+  const confidence = typeof diagnosis.confidence === 'number' ? diagnosis.confidence : Number(diagnosis.confidence) || 0;
+  const explanation = String(diagnosis.explanation ?? '');
+
+  const kept: string[] = [];
+  const rejected: string[] = [];
+  for (const id of toIdList(diagnosis.chosen_snomed_ids)) {
+    const reason = await rejectionReason(id, candidates);
+    if (reason) rejected.push(reason);
+    else if (!kept.includes(id)) kept.push(id);
+  }
+
+  // Everything else the backend attached (confidence components such as the
+  // server's token probabilities, prompt stamps) is carried through
+  const { corrected: _corrected, grounding_note: _note, ...rest } = diagnosis;
+  if (kept.length > 0 && rejected.length === 0) {
+    return { ...rest, phrase, chosen_snomed_ids: kept, confidence, explanation };
+  }
+
+  // Only fall back to the best candidate when nothing the model chose survived.
+  // Candidates can be stale too, so it is the best one that passes the same checks.
+  let best: SnomedCandidate | undefined;
+  if (kept.length === 0) {
+    for (const candidate of candidates) {
+      if (!(await rejectionReason(candidate.id, candidates))) {
+        best = candidate;
+        break;
+      }
+    }
+  }
+  const ids = best ? [best.id] : kept;
+  const problem = rejected.length > 0 ? rejected.join('; ') : 'no SNOMED id chosen';
+  const outcome = best ? `using best candidate ${best.id}` : ids.length > 0 ? `kept ${ids.join(', ')}` : 'no candidate available';
+  return {
+    ...rest,
+    phrase,
+    chosen_snomed_ids: ids,
+    // The model's confidence was in a code it invented, so the replacement gets no more than its retrieval score
+    confidence: ids.length === 0 ? 0 : best ? Math.min(confidence, best.score) : confidence,
+    explanation,
+    corrected: true,
+    grounding_note: `${problem}; ${outcome}`,
+  };
+};
+
+/** Validates every chosen SNOMED id against the candidates retrieved for each diagnosis. */
+export const groundDiagnoses = async (diagnoses: FinalDiagnosis[], mapped: DiagnosisCandidate[]): Promise<FinalDiagnosis[]> => {
+  const grounded: FinalDiagnosis[] = [];
+  for (let i = 0; i < diagnoses.length; i++) {
+    grounded.push(await groundDiagnosis(diagnoses[i], i, mapped));
+  }
+  const corrected = grounded.filter(d => d.corrected).length;
+  if (corrected > 0) console.warn(`[Grounding] Corrected ${corrected} of ${grounded.length} diagnoses`);
+  return grounded;
+};
+
+/**
+ * The diagnosis with the clinician's concept in place of the model's first choice.
+ * The confidence components and the grounding note were worked out for the model's
+ * concept, so they are dropped, and the diagnosis is marked clinician-selected so
+ * nothing shows or exports its confidence as the new concept's.
+ */
+export const withClinicianConcept = (diagnosis: FinalDiagnosis, conceptId: string): FinalDiagnosis => {
+  const { confidence_components: _components, corrected: _corrected, grounding_note: _note, ...rest } = diagnosis;
+  return {
+    ...rest,
+    chosen_snomed_ids: [conceptId, ...diagnosis.chosen_snomed_ids.slice(1).filter(id => id !== conceptId)],
+    clinician_selected: true,
+    model_snomed_id: diagnosis.model_snomed_id ?? diagnosis.chosen_snomed_ids[0],
+  };
+};
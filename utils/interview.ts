@@ -0,0 +1,81 @@
+import { PatientData, Symptom } from '@/types/pipeline';
+
+// Structured history taking: works out which parts of PatientData are still
+// empty and turns the most important one into a follow-up question. This is
+// deterministic on purpose so the interview behaves the same on every backend
+// and costs no model time between turns.
+
+export interface InterviewGap {
+  /** Stable key used to remember that the question was already asked. */
+  key: string;
+  question: string;
+}
+
+type SymptomField = keyof Omit<Symptom, 'name'>;
+
+// Ordered roughly like a SOCRATES pain history
+const SYMPTOM_QUESTIONS: [SymptomField, (name: string) => string][] = [
+  ['onset', name => `When did the ${name} start, and did it come on suddenly or gradually?`],
+  ['location', name => `Where exactly do you feel the ${name}? Does it spread anywhere?`],
+  ['character', name => `How would you describe the ${name}? For example sharp, dull, burning or crushing.`],
+  ['severity', name => `How bad is the ${name} on a scale of 0 to 10?`],
+  ['duration', name => `How long does the ${name} last, and is it constant or does it come and go?`],
+  ['worse_with', name => `Does anything make the ${name} worse, such as exertion, eating or lying down?`],
+  ['relieved_by', name => `Does anything make the ${name} better, such as rest or medication?`],
+];
+
+// Secondary symptoms only get the questions that matter most for a differential
+const SECONDARY_SYMPTOM_FIELDS: SymptomField[] = ['onset', 'severity'];
+
+/** Questions asked in one interview before we hand over to the diagnosis pipeline. */
+export const MAX_INTERVIEW_QUESTIONS = 12;
+
+const symptomKey = (symptom: Symptom, field: SymptomField) =>
+  `symptom:${symptom.name.trim().toLowerCase()}:${field}`;
+
+// Every gap in the order it should be asked, filled or not yet asked
+export const findInterviewGaps = (data: PatientData | null): InterviewGap[] => {
+  const gaps: InterviewGap[] = [];
+
+  if (!data || data.symptoms.length === 0) {
+    gaps.push({ key: 'symptoms', question: 'What is the main problem that brings you in today?' });
+  }
+
+  if (data?.demographics?.age === undefined) {
+    gaps.push({ key: 'age', question: 'How old are you?' });
+  }
+  if (!data?.demographics?.sex) {
+    gaps.push({ key: 'sex', question: 'What is your sex?' });
+  }
+
+  data?.symptoms.forEach((symptom, index) => {
+    for (const [field, question] of SYMPTOM_QUESTIONS) {
+      if (index > 0 && !SECONDARY_SYMPTOM_FIELDS.includes(field)) continue;
+      if (!symptom[field]) {
+        gaps.push({ key: symptomKey(symptom, field), question: question(symptom.name.toLowerCase()) });
+      }
+    }
+
+    // Ask about medications and history once the presenting complaint is covered
+    if (index === 0) {
+      if (data.medications.length === 0) {
+        gaps.push({ key: 'medications', question: 'Are you taking any medications, including over-the-counter ones?' });
+      }
+      if (data.past_medical_history.length === 0) {
+        gaps.push({ key: 'past_medical_history', question: 'Have you had any medical conditions or operations in the past?' });
+      }
+    }
+  });
+
+  return gaps;
+};
+
+/**
+ * Next question to ask, or null once enough has been gathered: every gap was
+ * either filled or asked once (patients can't always answer), or the question
+ * budget is spent.
+ */
+export const nextInterviewQuestion = (data: PatientData | null, asked: string[]): InterviewGap | null => {
+  if (asked.length >= MAX_INTERVIEW_QUESTIONS) return null;
+  return findInterviewGaps(data).find(gap => !asked.includes(gap.key)) ?? null;
+};
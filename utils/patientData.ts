@@ -0,0 +1,248 @@
+import { Demographics, PatientData, Symptom } from '@/types/pipeline';
+import { unionPromptStamps } from '@/utils/prompts';
+
+// Runtime validation for PatientData coming out of a model or the server.
+// Small models rarely follow the schema exactly, so we normalise what we can
+// (renamed keys, numbers as strings, single values instead of arrays) and only
+// report errors for things that cannot be coerced. The errors are phrased so
+// they can be sent back to the model as repair instructions.
+
+export interface PatientDataValidation {
+  value: PatientData;
+  errors: string[];
+}
+
+const SYMPTOM_FIELDS: (keyof Omit<Symptom, 'name'>)[] = [
+  'onset', 'duration', 'character', 'location', 'severity', 'worse_with', 'relieved_by'
+];
+
+// Model spellings -> PatientData keys
+const KEY_ALIASES: Record<string, string> = {
+  summary: 'free_text_summary',
+  free_text: 'free_text_summary',
+  history: 'past_medical_history',
+  pmh: 'past_medical_history',
+  medical_history: 'past_medical_history',
+  past_history: 'past_medical_history',
+  meds: 'medications',
+  drugs: 'medications',
+  current_medications: 'medications',
+  redflags: 'red_flags',
+  gender: 'sex',
+  aggravating_factors: 'worse_with',
+  aggravated_by: 'worse_with',
+  worse: 'worse_with',
+  relieving_factors: 'relieved_by',
+  relieved: 'relieved_by',
+  better_with: 'relieved_by',
+  site: 'location',
+  symptom: 'name',
+  description: 'character',
+  quality: 'character',
+};
+
+const normalizeKey = (key: string) => {
+  const snake = key.trim().replace(/([a-z])([A-Z])/g, '$1_$2').replace(/[\s-]+/g, '_').toLowerCase();
+  return KEY_ALIASES[snake] ?? snake;
+};
+
+const normalizeKeys = (obj: Record<string, unknown>): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    out[normalizeKey(key)] = value;
+  }
+  return out;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'string' && /^(n\/?a|none|unknown|null|not specified)$/i.test(value.trim()));
+
+const toText = (value: unknown): string | undefined => {
+  if (isBlank(value)) return undefined;
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter((v): v is string => !!v);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+  return undefined;
+};
+
+const toStringList = (value: unknown, field: string, errors: string[]): string[] => {
+  if (isBlank(value)) return [];
+  if (typeof value === 'string') {
+    return value.split(/[,;\n]/).map(v => v.trim()).filter(v => v.length > 0 && !isBlank(v));
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(item => isRecord(item) ? toText(item.name ?? Object.values(item)[0]) : toText(item))
+      .filter((v): v is string => !!v);
+  }
+  errors.push(`"${field}" must be an array of strings.`);
+  return [];
+};
+
+const normalizeSex = (value: unknown, errors: string[]): string | undefined => {
+  const text = toText(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (/^(m|male|man|boy)$/.test(text)) return 'male';
+  if (/^(f|female|woman|girl)$/.test(text)) return 'female';
+  if (/^(other|non-?binary|intersex)$/.test(text)) return 'other';
+  errors.push(`"sex" must be "male", "female" or "other", got "${text}".`);
+  return undefined;
+};
+
+const normalizeAge = (value: unknown, errors: string[]): number | undefined => {
+  if (isBlank(value)) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const match = typeof value === 'string' ? value.match(/\d+(\.\d+)?/) : null;
+  if (match) return Number(match[0]);
+  errors.push(`"age" must be a number of years, got ${JSON.stringify(value)}.`);
+  return undefined;
+};
+
+const normalizeDemographics = (raw: Record<string, unknown>, errors: string[]): Demographics | undefined => {
+  // Accept both {"demographics": {...}} and top-level age/sex
+  const source = isRecord(raw.demographics) ? { ...raw, ...normalizeKeys(raw.demographics) } : raw;
+  const demographics: Demographics = {};
+  const age = normalizeAge(source.age, errors);
+  const sex = normalizeSex(source.sex, errors);
+  if (age !== undefined) demographics.age = age;
+  if (sex !== undefined) demographics.sex = sex;
+  return Object.keys(demographics).length > 0 ? demographics : undefined;
+};
+
+const normalizeSymptom = (item: unknown, index: number, errors: string[]): Symptom | null => {
+  if (typeof item === 'string') {
+    return isBlank(item) ? null : { name: item.trim() };
+  }
+  if (!isRecord(item)) {
+    errors.push(`"symptoms[${index}]" must be an object with a "name".`);
+    return null;
+  }
+  const fields = normalizeKeys(item);
+  const name = toText(fields.name);
+  if (!name) {
+    errors.push(`"symptoms[${index}]" is missing "name".`);
+    return null;
+  }
+  const symptom: Symptom = { name };
+  for (const field of SYMPTOM_FIELDS) {
+    const text = toText(fields[field]);
+    if (text) symptom[field] = text;
+  }
+  return symptom;
+};
+
+const normalizeSymptoms = (value: unknown, errors: string[]): Symptom[] => {
+  if (isBlank(value)) return [];
+  if (typeof value === 'string') {
+    return toStringList(value, 'symptoms', errors).map(name => ({ name }));
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`"symptoms" must be an array of objects.`);
+    return [];
+  }
+  return value
+    .map((item, i) => normalizeSymptom(item, i, errors))
+    .filter((s): s is Symptom => s !== null);
+};
+
+export const validatePatientData = (raw: unknown): PatientDataValidation => {
+  const errors: string[] = [];
+
+  if (!isRecord(raw)) {
+    errors.push('Output must be a single JSON object.');
+    return { value: emptyPatientData(), errors };
+  }
+
+  const fields = normalizeKeys(raw);
+  const value: PatientData = {
+    demographics: normalizeDemographics(fields, errors),
+    symptoms: normalizeSymptoms(fields.symptoms, errors),
+    past_medical_history: toStringList(fields.past_medical_history, 'past_medical_history', errors),
+    medications: toStringList(fields.medications, 'medications', errors),
+    red_flags: toStringList(fields.red_flags, 'red_flags', errors),
+    free_text_summary: toText(fields.free_text_summary),
+  };
+  if (!value.demographics) delete value.demographics;
+
+  const isEmpty = !value.demographics && !value.free_text_summary && value.symptoms.length === 0 &&
+    value.past_medical_history.length === 0 && value.medications.length === 0;
+  if (isEmpty) {
+    errors.push('Include at least one entry in "symptoms" or a "free_text_summary".');
+  }
+
+  return { value, errors };
+};
+
+/**
+ * The fields a validation complained about, for logs. The messages themselves
+ * quote the patient's values back, so they only ever go to the model.
+ */
+export const invalidFields = (errors: string[]) =>
+  [...new Set(errors.map(e => e.match(/^"([^"[]+)/)?.[1] ?? 'output'))];
+
+export const emptyPatientData = (free_text_summary?: string): PatientData => ({
+  symptoms: [],
+  past_medical_history: [],
+  medications: [],
+  red_flags: [],
+  ...(free_text_summary ? { free_text_summary } : {})
+});
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const unionStrings = (existing: string[], incoming: string[]) => {
+  const seen = new Set(existing.map(normalizeName));
+  const merged = [...existing];
+  for (const item of incoming) {
+    const key = normalizeName(item);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+  return merged;
+};
+
+// Folds data extracted from new conversation turns into what we already know.
+// Symptoms are matched by name and newer attribute values win; lists are unioned.
+export const mergePatientData = (existing: PatientData | null, incoming: PatientData): PatientData => {
+  if (!existing) return incoming;
+
+  const symptoms = existing.symptoms.map(s => ({ ...s }));
+  for (const symptom of incoming.symptoms) {
+    const match = symptoms.find(s => normalizeName(s.name) === normalizeName(symptom.name));
+    if (!match) {
+      symptoms.push({ ...symptom });
+      continue;
+    }
+    for (const field of SYMPTOM_FIELDS) {
+      if (symptom[field]) match[field] = symptom[field];
+    }
+  }
+
+  const demographics = { ...existing.demographics, ...incoming.demographics };
+  const summaries = [existing.free_text_summary, incoming.free_text_summary].filter((s): s is string => !!s);
+
+  const merged: PatientData = {
+    symptoms,
+    past_medical_history: unionStrings(existing.past_medical_history, incoming.past_medical_history),
+    medications: unionStrings(existing.medications, incoming.medications),
+    red_flags: unionStrings(existing.red_flags, incoming.red_flags),
+    // rule_red_flags are left out: withRedFlags evaluates the rules again on the result
+  };
+  const prompts = unionPromptStamps(existing.extraction_prompts, incoming.extraction_prompts);
+  if (Object.keys(demographics).length > 0) merged.demographics = demographics;
+  if (summaries.length > 0) merged.free_text_summary = summaries.join(' ');
+  if (prompts.length > 0) merged.extraction_prompts = prompts;
+  return merged;
+};
+
+/** The clinical fields only, for prompts and server requests: the prompt stamps describe how the data was made, not the patient. */
+export const clinicalFields = ({ extraction_prompts: _prompts, ...data }: PatientData): PatientData => data;
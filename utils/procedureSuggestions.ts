@@ -0,0 +1,73 @@
+import { FinalDiagnosis, PatientData, SuggestedProcedure } from '@/types/pipeline';
+import { normalizeDiagnosis } from '@/utils/differential';
+import { getOpcsCodes, MappedCode } from '@/utils/snomedMaps';
+
+// Investigations and procedures to consider for a diagnosis, each a SNOMED CT
+// procedure concept so the OPCS-4 map can code it for UK reporting. Rules are
+// plain data matched against the normalised diagnosis phrase, like the red-flag
+// rules: a starting point for the clinician, not a care pathway.
+
+interface ProcedureRule {
+  /** Matched against the normalised phrase (hedges removed, synonyms applied). */
+  diagnosis: RegExp;
+  suggestions: SuggestedProcedure[];
+}
+
+const investigation = (conceptId: string, label: string): SuggestedProcedure => ({ conceptId, label, kind: 'investigation' });
+const procedure = (conceptId: string, label: string): SuggestedProcedure => ({ conceptId, label, kind: 'procedure' });
+
+const ECG = investigation('29303009', 'Electrocardiogram');
+const CHEST_XRAY = investigation('399208008', 'Plain chest X-ray');
+const FBC = investigation('26604007', 'Full blood count');
+const BLOOD_CULTURE = investigation('30088009', 'Blood culture');
+const ECHO = investigation('40701008', 'Echocardiography');
+const CT = investigation('77477000', 'CT scan');
+const MRI = investigation('113091000', 'MRI scan');
+const ULTRASOUND = investigation('16310003', 'Ultrasound scan');
+const LIPIDS = investigation('16254007', 'Lipid panel');
+
+export const PROCEDURE_RULES: ProcedureRule[] = [
+  {
+    diagnosis: /myocardial infarction|acute coronary syndrome|angina/,
+    suggestions: [ECG, LIPIDS, procedure('33367005', 'Coronary angiography'), procedure('415070008', 'Percutaneous coronary intervention')],
+  },
+  { diagnosis: /pulmonary embolism/, suggestions: [ECG, CHEST_XRAY, CT] },
+  { diagnosis: /pneumonia|chest infection|lower respiratory tract infection/, suggestions: [CHEST_XRAY, FBC, BLOOD_CULTURE] },
+  { diagnosis: /asthma|chronic obstructive pulmonary disease/, suggestions: [investigation('127783003', 'Spirometry'), CHEST_XRAY] },
+  { diagnosis: /heart failure/, suggestions: [ECHO, ECG, CHEST_XRAY] },
+  {
+    diagnosis: /atrial fibrillation/,
+    suggestions: [ECG, ECHO, investigation('35650009', 'Thyroid function tests'), procedure('250980009', 'Cardioversion')],
+  },
+  { diagnosis: /urinary tract infection|pyelonephritis|\bcystitis/, suggestions: [investigation('27171005', 'Urinalysis'), investigation('117010004', 'Urine culture')] },
+  { diagnosis: /appendicitis/, suggestions: [FBC, ULTRASOUND, procedure('80146002', 'Appendicectomy')] },
+  { diagnosis: /cholecystitis|biliary colic|gallstone|cholelithiasis/, suggestions: [ULTRASOUND, procedure('38102005', 'Cholecystectomy')] },
+  { diagnosis: /gastro oesophageal reflux|peptic ulcer|dyspepsia|gastritis/, suggestions: [procedure('76009000', 'Oesophagogastroduodenoscopy')] },
+  { diagnosis: /colorectal|crohn|ulcerative colitis|inflammatory bowel/, suggestions: [procedure('73761001', 'Colonoscopy')] },
+  { diagnosis: /subarachnoid haemorrhage|subarachnoid hemorrhage|meningitis/, suggestions: [CT, procedure('277762005', 'Lumbar puncture')] },
+  { diagnosis: /stroke|transient ischaemic attack/, suggestions: [CT, MRI, ECG] },
+  { diagnosis: /diabetes(?! insipidus)/, suggestions: [investigation('33747003', 'Blood glucose'), investigation('43396009', 'HbA1c')] },
+  { diagnosis: /sepsis/, suggestions: [BLOOD_CULTURE, FBC] },
+];
+
+/** Suggestions of every rule the diagnosis matches, investigations first, without repeats. */
+export const suggestProcedures = (diagnosis: Pick<FinalDiagnosis, 'phrase'>): SuggestedProcedure[] => {
+  const phrase = normalizeDiagnosis(diagnosis.phrase);
+  const seen = new Set<string>();
+  return PROCEDURE_RULES
+    .filter(rule => rule.diagnosis.test(phrase))
+    .flatMap(rule => rule.suggestions)
+    .filter(suggestion => !seen.has(suggestion.conceptId) && !!seen.add(suggestion.conceptId))
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'investigation' ? -1 : 1));
+};
+
+/**
+ * OPCS-4 codes for a suggested procedure. Map rules are evaluated against the
+ * patient's demographics, and the diagnosis' concepts satisfy co-morbidity rules.
+ */
+export const getProcedureCodes = (suggestion: SuggestedProcedure, diagnosis: FinalDiagnosis, data?: PatientData | null): Promise<MappedCode[]> =>
+  getOpcsCodes(suggestion.conceptId, {
+    age: data?.demographics?.age,
+    sex: data?.demographics?.sex,
+    conceptIds: diagnosis.chosen_snomed_ids,
+  });
@@ -0,0 +1,78 @@
+import type { Message } from 'cactus-react-native';
+import { MODEL_PROMPT_OVERRIDES, PROMPT_TEMPLATES } from '@/constants/prompts';
+import { PromptFormat, PromptId, PromptStamp } from '@/types/prompts';
+
+export interface RenderedPrompt {
+  messages: Message[];
+  stamp: PromptStamp;
+}
+
+// Longest prefix of the model name that has overrides registered
+const overrideKeyFor = (modelName: string) =>
+  Object.keys(MODEL_PROMPT_OVERRIDES)
+    .filter(key => modelName.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+// Single pass, so values that happen to contain {{...}} are left alone. A
+// placeholder without a value is a bug in the calling stage, not in the input.
+export const interpolate = (template: string, vars: Record<string, string | number>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in vars)) throw new Error(`Prompt variable "${name}" has no value`);
+    return String(vars[name]);
+  });
+
+const applyFormat = (messages: Message[], format: PromptFormat): Message[] => {
+  let result = messages;
+  if (format.foldSystem) {
+    const system = result.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    result = result.filter(m => m.role !== 'system');
+    const firstUser = result.findIndex(m => m.role === 'user');
+    if (system && firstUser !== -1) {
+      result = result.map((m, i) => i === firstUser ? { ...m, content: `${system}\n\n${m.content}` } : m);
+    } else if (system) {
+      result = [{ role: 'user', content: system }, ...result];
+    }
+  }
+  if (format.userSuffix) {
+    const lastUser = result.map(m => m.role).lastIndexOf('user');
+    if (lastUser !== -1) {
+      result = result.map((m, i) => i === lastUser ? { ...m, content: `${m.content}${format.userSuffix}` } : m);
+    }
+  }
+  return result;
+};
+
+/**
+ * Renders a registered template for `modelName`, applying that model's overrides.
+ * `history` is sent after the template and formatted with it, so a user suffix
+ * lands on the latest turn of a conversation rather than on the template.
+ */
+export const renderPrompt = (
+  id: PromptId,
+  modelName: string,
+  vars: Record<string, string | number> = {},
+  history: Message[] = []
+): RenderedPrompt => {
+  const variant = overrideKeyFor(modelName);
+  const overrides = variant ? MODEL_PROMPT_OVERRIDES[variant] : undefined;
+  const template = overrides?.templates?.[id] ?? PROMPT_TEMPLATES[id];
+
+  const messages = [...template.messages.map(m => ({ role: m.role, content: interpolate(m.content, vars) })), ...history];
+  return {
+    messages: overrides?.format ? applyFormat(messages, overrides.format) : messages,
+    stamp: { id, version: template.version, ...(variant ? { variant } : {}) },
+  };
+};
+
+/** "explain v2 (qwen3)" */
+export const formatPromptStamp = (stamp: PromptStamp) =>
+  `${stamp.id} v${stamp.version}${stamp.variant ? ` (${stamp.variant})` : ''}`;
+
+/** Stamps in order of first appearance, without repeats. */
+export const unionPromptStamps = (...lists: (PromptStamp[] | undefined)[]) => {
+  const seen = new Map<string, PromptStamp>();
+  for (const stamp of lists.flatMap(list => list ?? [])) {
+    if (!seen.has(formatPromptStamp(stamp))) seen.set(formatPromptStamp(stamp), stamp);
+  }
+  return [...seen.values()];
+};
@@ -0,0 +1,167 @@
+import { PatientData, RedFlag } from '@/types/pipeline';
+
+// Deterministic red-flag screening. Rules are plain data evaluated against the
+// structured PatientData and, as a fallback, the raw patient transcript, so a
+// flag still fires when the model output could not be parsed. Negations ("no
+// chest pain") are not detected: for red flags a false alarm is the safe failure.
+
+type RedFlagCondition =
+  /** A symptom whose name matches, optionally with an attribute (onset, character, ...) matching `with`. */
+  | { symptom: RegExp; with?: RegExp }
+  /** Anything the patient said or the extractor recorded. */
+  | { mentions: RegExp }
+  | { minAge?: number; maxAge?: number }
+  | { sex: 'male' | 'female' };
+
+interface RedFlagRule extends RedFlag {
+  /** Every condition must hold. */
+  all: RedFlagCondition[];
+}
+
+const CHEST_PAIN = /chest (pain|tightness|pressure|discomfort|ache)|angina/i;
+const HEADACHE = /headache|head pain/i;
+const BACK_PAIN = /back pain|backache|lumbar pain/i;
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    code: 'RF-CP-EXERTION',
+    title: 'Exertional chest pain',
+    rationale: 'Chest pain brought on by exertion suggests myocardial ischaemia and needs same-day cardiac assessment.',
+    all: [{ symptom: CHEST_PAIN, with: /exert|exercise|walk|stairs|climb|hill|running/i }],
+  },
+  {
+    code: 'RF-CP-RADIATION',
+    title: 'Chest pain radiating to arm, jaw or neck',
+    rationale: 'Radiation to the arm, jaw or neck is typical of acute coronary syndrome.',
+    all: [{ symptom: CHEST_PAIN, with: /\barm\b|jaw|neck|shoulder/i }],
+  },
+  {
+    code: 'RF-HA-THUNDERCLAP',
+    title: 'Thunderclap headache',
+    rationale: 'A sudden, maximal-at-onset headache may be a subarachnoid haemorrhage and needs emergency imaging.',
+    all: [{ symptom: HEADACHE, with: /sudden|thunderclap|worst|instant|explosive/i }],
+  },
+  {
+    code: 'RF-HA-MENINGISM',
+    title: 'Headache with fever and neck stiffness',
+    rationale: 'Fever with neck stiffness raises concern for meningitis.',
+    all: [{ symptom: HEADACHE }, { mentions: /fever|temperature|pyrexi/i }, { mentions: /stiff neck|neck stiff/i }],
+  },
+  {
+    code: 'RF-NEURO-DEFICIT',
+    title: 'Possible stroke',
+    rationale: 'Sudden facial droop, limb weakness or speech disturbance needs emergency stroke assessment.',
+    all: [{ mentions: /facial droop|face droop|slurred speech|one[- ]sided weakness|weakness (in|of) (one|the left|the right)|can'?t (move|lift) (my|his|her) (arm|leg)/i }],
+  },
+  {
+    code: 'RF-BACK-CAUDA-EQUINA',
+    title: 'Back pain with possible cauda equina syndrome',
+    rationale: 'Back pain with saddle anaesthesia or new bladder/bowel dysfunction needs an emergency MRI.',
+    all: [{ symptom: BACK_PAIN }, { mentions: /saddle|incontinen|retention|can'?t (pee|urinate)|bladder|bowel control/i }],
+  },
+  {
+    code: 'RF-RESP-BREATHLESS-REST',
+    title: 'Breathlessness at rest',
+    rationale: 'Shortness of breath at rest suggests significant cardiorespiratory compromise.',
+    all: [{ symptom: /breath|dyspn/i, with: /at rest|resting|lying|sitting|sudden/i }],
+  },
+  {
+    code: 'RF-RESP-HAEMOPTYSIS',
+    title: 'Haemoptysis',
+    rationale: 'Coughing up blood can indicate pulmonary embolism or malignancy.',
+    all: [{ mentions: /coughing (up )?blood|cough(ed|s)? (up )?blood|ha?emoptysis/i }],
+  },
+  {
+    code: 'RF-GI-BLEED',
+    title: 'Gastrointestinal bleeding',
+    rationale: 'Vomiting blood or black, tarry stools suggest an upper GI bleed.',
+    all: [{ mentions: /vomit(ing|ed)? blood|ha?ematemesis|black (tarry )?stool|mela?ena|coffee[- ]ground/i }],
+  },
+  {
+    code: 'RF-WEIGHT-LOSS',
+    title: 'Unexplained weight loss',
+    rationale: 'Unintentional weight loss warrants investigation for malignancy.',
+    all: [{ mentions: /weight loss|losing weight|lost (\d+ ?(kg|kilos|pounds|lbs?)|weight)/i }],
+  },
+  {
+    code: 'RF-SEPSIS',
+    title: 'Fever with confusion or rigors',
+    rationale: 'Fever with new confusion or rigors may indicate sepsis.',
+    all: [{ mentions: /fever|temperature|pyrexi/i }, { mentions: /confus|rigou?rs|drows|disorient/i }],
+  },
+  {
+    code: 'RF-TESTICULAR',
+    title: 'Acute testicular pain',
+    rationale: 'Sudden testicular pain is torsion until proven otherwise and needs urgent surgical review.',
+    all: [{ sex: 'male' }, { mentions: /testic|scrot/i }],
+  },
+  {
+    code: 'RF-PREGNANCY-PAIN',
+    title: 'Abdominal pain or bleeding in pregnancy',
+    rationale: 'Abdominal pain or bleeding in pregnancy may be an ectopic pregnancy.',
+    all: [{ sex: 'female' }, { mentions: /pregnan|missed (my )?period/i }, { mentions: /abdominal|pelvic|tummy|bleed/i }],
+  },
+  {
+    code: 'RF-SUICIDE-RISK',
+    title: 'Suicidal thoughts',
+    rationale: 'Thoughts of suicide or self-harm need an immediate risk assessment.',
+    all: [{ mentions: /suicid|kill (my|him|her)self|end (my|his|her) life|self[- ]harm/i }],
+  },
+];
+
+// Everything a rule may search when structured fields are missing
+const collectText = (data: PatientData | null, transcript: string) => {
+  const parts = [transcript];
+  if (data) {
+    parts.push(data.free_text_summary ?? '', ...data.past_medical_history, ...data.medications);
+    for (const symptom of data.symptoms) {
+      parts.push(Object.values(symptom).filter(Boolean).join(' '));
+    }
+  }
+  return parts.join('\n');
+};
+
+const holds = (condition: RedFlagCondition, data: PatientData | null, text: string): boolean => {
+  if ('symptom' in condition) {
+    const structured = data?.symptoms.some(s => {
+      if (!condition.symptom.test(s.name)) return false;
+      if (!condition.with) return true;
+      return Object.values(s).some(value => !!value && condition.with!.test(value));
+    });
+    // Fall back to the raw text so the rule fires even if extraction failed
+    return !!structured || (condition.symptom.test(text) && (!condition.with || condition.with.test(text)));
+  }
+  if ('mentions' in condition) {
+    return condition.mentions.test(text);
+  }
+  if ('sex' in condition) {
+    return data?.demographics?.sex === condition.sex;
+  }
+  const age = data?.demographics?.age;
+  if (age === undefined) return false;
+  return (condition.minAge === undefined || age >= condition.minAge) &&
+    (condition.maxAge === undefined || age <= condition.maxAge);
+};
+
+export const evaluateRedFlags = (data: PatientData | null, transcript = ''): RedFlag[] => {
+  const text = collectText(data, transcript);
+  return RED_FLAG_RULES
+    .filter(rule => rule.all.every(condition => holds(condition, data, text)))
+    .map(({ code, title, rationale }) => ({ code, title, rationale }));
+};
+
+const RULE_CODES = new Set(RED_FLAG_RULES.map(rule => rule.code));
+
+/** Model-reported flags, without rule codes that encounters saved by earlier versions mixed in. */
+export const modelRedFlags = (data: PatientData | null) =>
+  (data?.red_flags ?? []).filter(flag => !RULE_CODES.has(flag));
+
+/**
+ * Replaces PatientData.rule_red_flags with the rules that fire now. The model's own
+ * flags stay in red_flags; rule codes left there by earlier versions are moved out.
+ */
+export const withRedFlags = (data: PatientData, transcript = ''): PatientData => ({
+  ...data,
+  red_flags: modelRedFlags(data),
+  rule_red_flags: evaluateRedFlags(data, transcript),
+});
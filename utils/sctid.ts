@@ -0,0 +1,45 @@
+// SNOMED CT identifier (SCTID) checks. An SCTID is 6-18 digits: an item id, an
+// optional namespace, a two-digit partition identifier and a Verhoeff check digit.
+
+// Verhoeff dihedral group D5 multiplication and permutation tables
+const D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+// Partition identifiers for concepts: short format (International) and long format (namespaced)
+const CONCEPT_PARTITIONS = ['00', '10'];
+
+/** True when the last digit is the Verhoeff check digit of the rest. */
+export const hasValidCheckDigit = (id: string) => {
+  let check = 0;
+  const digits = id.split('').reverse();
+  for (let i = 0; i < digits.length; i++) {
+    check = D[check][P[i % 8][Number(digits[i])]];
+  }
+  return check === 0;
+};
+
+/** Well-formed SCTID whose partition says it identifies a concept (not a description or relationship). */
+export const isValidConceptId = (id: string) =>
+  /^[1-9]\d{5,17}$/.test(id) &&
+  CONCEPT_PARTITIONS.includes(id.slice(-3, -1)) &&
+  hasValidCheckDigit(id);
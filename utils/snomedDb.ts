@@ -1,14 +1,16 @@
 import * as SQLite from 'expo-sqlite';
 import { Asset } from 'expo-asset';
-import * as FileSystem from 'expo-file-system';
 // Legacy import to silence deprecation warning until migration to new FileSystem API
-import { getInfoAsync, makeDirectoryAsync, copyAsync } from 'expo-file-system/legacy';
+import { getInfoAsync, makeDirectoryAsync, copyAsync, documentDirectory } from 'expo-file-system/legacy';
+import { SnomedCandidate } from '@/types/pipeline';
+import { SnomedConcept } from '@/types/snomed';
 
-export interface SnomedConcept {
-  id: string;      // Description ID
-  conceptId: string; // Concept ID
-  term: string;
-  active: number;
+// A search hit grouped by concept: the best-ranked matching description stands for it
+interface ConceptHit {
+  conceptId: string;
+  preferredTerm: string;
+  matchedTerm: string;
+  rank: number;
 }
 
 // Open the database. In modern Expo SQLite, openDatabaseSync is preferred if available,
@@ -19,11 +21,11 @@ const DB_NAME = 'snomed.db';
 
 export const getSnomedDb = async (): Promise<SQLite.SQLiteDatabase> => {
   // Check if DB exists in document directory
-  const dbPath = `${FileSystem.documentDirectory}SQLite/${DB_NAME}`;
-  const dirInfo = await getInfoAsync(`${FileSystem.documentDirectory}SQLite`);
+  const dbPath = `${documentDirectory}SQLite/${DB_NAME}`;
+  const dirInfo = await getInfoAsync(`${documentDirectory}SQLite`);
   
   if (!dirInfo.exists) {
-    await makeDirectoryAsync(`${FileSystem.documentDirectory}SQLite`);
+    await makeDirectoryAsync(`${documentDirectory}SQLite`);
   }
 
   const fileInfo = await getInfoAsync(dbPath);
@@ -44,30 +46,111 @@ export const getSnomedDb = async (): Promise<SQLite.SQLiteDatabase> => {
   return SQLite.openDatabaseAsync(DB_NAME);
 };
 
-// Function to search terms by text (Exact or LIKE)
-// Note: FTS (Full Text Search) is better, but LIKE is a start.
-export const searchSnomedTerms = async (query: string, limit = 20): Promise<SnomedConcept[]> => {
+// Query tokens for both search paths. Punctuation is dropped so user text can't
+// inject FTS syntax (quotes, NEAR, column filters).
+const tokenize = (query: string) => query.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+let ftsAvailable: Promise<boolean> | null = null;
+
+// Databases built before the FTS5 index was added (or SQLite builds without FTS5)
+// fall back to LIKE. Checked once per session.
+const hasFtsIndex = (db: SQLite.SQLiteDatabase) => {
+  if (!ftsAvailable) {
+    ftsAvailable = db
+      .getFirstAsync<{ name: string }>(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'descriptions_fts'`)
+      .then(row => !!row)
+      .catch(() => false);
+  }
+  return ftsAvailable;
+};
+
+const toCandidate = (row: ConceptHit, score: number): SnomedCandidate => ({
+  id: row.conceptId,
+  term: row.preferredTerm,
+  score,
+  ...(row.matchedTerm !== row.preferredTerm ? { matchedTerm: row.matchedTerm } : {}),
+});
+
+// bm25() is negative and unbounded (more negative = better), so scores are made
+// relative to the best hit: the top result scores 1, the rest between 0 and 1.
+const toCandidates = (rows: ConceptHit[]): SnomedCandidate[] => {
+  const best = rows.length > 0 ? rows[0].rank : 0;
+  return rows.map(row => toCandidate(row, best < 0 ? row.rank / best : 1));
+};
+
+// Description hits read per concept returned, since synonyms of one concept
+// often match the same query
+const DESCRIPTIONS_PER_CONCEPT = 4;
+
+// Hits are grouped by concept. bm25() can't be used inside an aggregate, so the
+// ranking happens in a subquery; SQLite takes the bare column (matchedTerm) from
+// the row holding the MIN().
+const searchFts = async (db: SQLite.SQLiteDatabase, tokens: string[], operator: 'AND' | 'OR', limit: number) => {
+  // Prefix match on every token: "ches pa" finds "Chest pain" and "Pain in chest"
+  const match = tokens.map(t => `"${t}"*`).join(` ${operator} `);
+  const rows = await db.getAllAsync<ConceptHit>(
+    `SELECT h.conceptId, c.preferredTerm, h.term AS matchedTerm, MIN(h.rank) AS rank
+       FROM (SELECT d.conceptId, d.term, bm25(descriptions_fts) AS rank
+               FROM descriptions_fts
+               JOIN descriptions d ON d.rowid = descriptions_fts.rowid
+              WHERE descriptions_fts MATCH ? AND d.active = 1
+              ORDER BY rank
+              LIMIT ?) h
+       JOIN concepts c ON c.id = h.conceptId
+      WHERE c.active = 1
+      GROUP BY h.conceptId
+      ORDER BY rank
+      LIMIT ?`,
+    [match, limit * DESCRIPTIONS_PER_CONCEPT, limit]
+  );
+  return toCandidates(rows);
+};
+
+// Every token must appear somewhere in the term, in any order. Can't use an index,
+// so this is only the fallback. Shorter terms rank first as the closest matches.
+const searchLike = async (db: SQLite.SQLiteDatabase, tokens: string[], limit: number) => {
+  const where = tokens.map(() => 'd.term LIKE ?').join(' AND ');
+  const rows = await db.getAllAsync<ConceptHit>(
+    `SELECT d.conceptId, c.preferredTerm, d.term AS matchedTerm, MIN(length(d.term)) AS rank
+       FROM descriptions d
+       JOIN concepts c ON c.id = d.conceptId
+      WHERE ${where} AND d.active = 1 AND c.active = 1
+      GROUP BY d.conceptId
+      ORDER BY rank
+      LIMIT ?`,
+    [...tokens.map(t => `%${t}%`), limit]
+  );
+  const queryLength = tokens.join(' ').length;
+  return rows.map(row => toCandidate(row, Math.min(1, queryLength / row.rank)));
+};
+
+// Ranked text search over active descriptions. Uses the FTS5 index when the
+// database has one: all tokens first, then any token if that finds nothing.
+export const searchSnomedTerms = async (query: string, limit = 20): Promise<SnomedCandidate[]> => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+
   const db = await getSnomedDb();
-  // Use simple LIKE query for now. 
-  // For "chest pain", we might want "%chest%pain%" or similar.
-  const likeQuery = `%${query}%`;
-  
-  // Debug log to verify query execution
-  console.log(`[SnomedDB] Executing query: SELECT ... FROM descriptions WHERE term LIKE '${likeQuery}' LIMIT ${limit}`);
-
-  // We can't do Vector Search inside standard SQLite easily without extensions.
-  // So we will use Text Search to find candidates, THEN maybe re-rank or just return them.
-  // Since the user asked for Embedding Model + DB, the flow is:
-  // 1. Embedding Model -> Vector (Can't easily query SQL with Vector without extension)
-  // 2. Fallback: Use SQL Text Search to get candidates -> Embed candidates -> Cosine Sim -> Re-rank.
-  
+  // The query is the patient's own wording, so only counts and timings are logged
+  const started = Date.now();
+
   try {
-    const result = await db.getAllAsync<SnomedConcept>(
-      `SELECT id, conceptId, term, active FROM descriptions WHERE term LIKE ? LIMIT ?`,
-      [likeQuery, limit]
-    );
-    console.log(`[SnomedDB] Found ${result.length} matches for '${likeQuery}'`);
-    return result;
+    if (await hasFtsIndex(db)) {
+      let results = await searchFts(db, tokens, 'AND', limit);
+      if (results.length === 0 && tokens.length > 1) {
+        results = await searchFts(db, tokens, 'OR', limit);
+      }
+      console.log(`[SnomedDB] FTS found ${results.length} matches in ${Date.now() - started} ms`);
+      return results;
+    }
+  } catch (error) {
+    console.warn("[SnomedDB] FTS query failed, falling back to LIKE:", error);
+  }
+
+  try {
+    const results = await searchLike(db, tokens, limit);
+    console.log(`[SnomedDB] LIKE found ${results.length} matches in ${Date.now() - started} ms`);
+    return results;
   } catch (error) {
     console.error("[SnomedDB] Query failed:", error);
     // Fallback: Return empty to prevent crash
@@ -75,8 +158,32 @@ export const searchSnomedTerms = async (query: string, limit = 20): Promise<Snom
   }
 };
 
-// If we really want "Vector Search" against the DB, we'd need to store 
-// embeddings in the DB (as blobs) and iterate them (slow in JS) or use an extension.
-// Given constraints, Hybrid is best:
-// Search text matches -> Re-rank with Vector if needed, or just rely on Text Search for exact matches.
+/** A concept with its FSN and preferred term, or null when it is not in the database. */
+export const getSnomedConcept = async (conceptId: string): Promise<SnomedConcept | null> => {
+  try {
+    const db = await getSnomedDb();
+    const row = await db.getFirstAsync<{ id: string; active: number; fsn: string | null; preferredTerm: string }>(
+      'SELECT id, active, fsn, preferredTerm FROM concepts WHERE id = ?',
+      [conceptId]
+    );
+    return row ? { ...row, active: row.active === 1 } : null;
+  } catch (error) {
+    console.warn("[SnomedDB] Concept lookup failed:", error);
+    return null;
+  }
+};
+
+/** Whether a concept exists and is active, or null when the database can't answer. */
+export const isActiveConcept = async (conceptId: string): Promise<boolean | null> => {
+  try {
+    const db = await getSnomedDb();
+    const row = await db.getFirstAsync<{ active: number }>('SELECT active FROM concepts WHERE id = ?', [conceptId]);
+    return row ? row.active === 1 : false;
+  } catch (error) {
+    console.warn("[SnomedDB] Concept check failed:", error);
+    return null;
+  }
+};
 
+// Vector search isn't possible inside standard SQLite without extensions, so
+// semantic matching re-ranks these text hits with embeddings (see snomedSearch.ts).
@@ -0,0 +1,108 @@
+import { getSnomedDb } from '@/utils/snomedDb';
+
+// Navigation over the SNOMED concept hierarchy imported from the RF2
+// Relationship snapshot (see scripts/build_snomed_db.py). Every query fails soft
+// and returns [] so databases built without relationships keep working.
+
+export const IS_A = '116680003';
+
+export interface SnomedConceptRef {
+  id: string;
+  term: string;
+}
+
+export interface SnomedAttribute {
+  typeId: string;
+  type: string;
+  group: number;
+  value: SnomedConceptRef;
+}
+
+// Display term for a concept id column: the concept's preferred term. Columns must
+// be table-qualified or they resolve against the concepts subquery.
+const termOf = (column: string) =>
+  `(SELECT preferredTerm FROM concepts c WHERE c.id = ${column})`;
+
+const DEFAULT_LIMIT = 50;
+
+const run = async <T,>(label: string, sql: string, params: (string | number)[]): Promise<T[]> => {
+  try {
+    const db = await getSnomedDb();
+    return await db.getAllAsync<T>(sql, params);
+  } catch (error) {
+    console.warn(`[SnomedHierarchy] ${label} failed:`, error);
+    return [];
+  }
+};
+
+/** Direct supertypes (is-a targets) of a concept. */
+export const getParents = (conceptId: string) =>
+  run<SnomedConceptRef>('getParents',
+    `SELECT r.destinationId AS id, ${termOf('r.destinationId')} AS term
+       FROM relationships r
+      WHERE r.sourceId = ? AND r.typeId = ?
+      ORDER BY term`,
+    [conceptId, IS_A]);
+
+/** Direct subtypes of a concept. */
+export const getChildren = (conceptId: string, limit = DEFAULT_LIMIT) =>
+  run<SnomedConceptRef>('getChildren',
+    `SELECT r.sourceId AS id, ${termOf('r.sourceId')} AS term
+       FROM relationships r
+      WHERE r.destinationId = ? AND r.typeId = ?
+      ORDER BY term
+      LIMIT ?`,
+    [conceptId, IS_A, limit]);
+
+/** All supertypes up to the root, nearest first. */
+export const getAncestors = (conceptId: string, limit = DEFAULT_LIMIT) =>
+  run<SnomedConceptRef>('getAncestors',
+    `WITH RECURSIVE ancestors(id, depth) AS (
+       SELECT destinationId, 1 FROM relationships WHERE sourceId = ? AND typeId = ?
+       UNION
+       SELECT r.destinationId, a.depth + 1
+         FROM relationships r JOIN ancestors a ON r.sourceId = a.id
+        WHERE r.typeId = ?
+     )
+     SELECT a.id, ${termOf('a.id')} AS term
+       FROM (SELECT id, MIN(depth) AS depth FROM ancestors GROUP BY id) a
+      ORDER BY a.depth
+      LIMIT ?`,
+    [conceptId, IS_A, IS_A, limit]);
+
+/**
+ * Subtypes at any depth, nearest first. High-level concepts have tens of
+ * thousands of descendants, so the walk stops once `limit` rows are found.
+ */
+export const getDescendants = (conceptId: string, limit = DEFAULT_LIMIT) =>
+  run<SnomedConceptRef>('getDescendants',
+    `WITH RECURSIVE descendants(id) AS (
+       SELECT sourceId FROM relationships WHERE destinationId = ? AND typeId = ?
+       UNION
+       SELECT r.sourceId
+         FROM relationships r JOIN descendants s ON r.destinationId = s.id
+        WHERE r.typeId = ?
+       LIMIT ?
+     )
+     SELECT s.id, ${termOf('s.id')} AS term FROM descendants s`,
+    [conceptId, IS_A, IS_A, limit]);
+
+/** Defining attributes other than is-a, e.g. finding site or associated morphology. */
+export const getAttributes = async (conceptId: string): Promise<SnomedAttribute[]> => {
+  const rows = await run<{ typeId: string; type: string; grp: number; id: string; term: string }>('getAttributes',
+    `SELECT r.typeId, ${termOf('r.typeId')} AS type, r.relationshipGroup AS grp,
+            r.destinationId AS id, ${termOf('r.destinationId')} AS term
+       FROM relationships r
+      WHERE r.sourceId = ? AND r.typeId != ?
+      ORDER BY r.relationshipGroup, r.typeId`,
+    [conceptId, IS_A]);
+  return rows.map(row => ({ typeId: row.typeId, type: row.type, group: row.grp, value: { id: row.id, term: row.term } }));
+};
+
+/** Display term for a single concept, or null when it is not in the database. */
+export const getConceptTerm = async (conceptId: string): Promise<string | null> => {
+  const rows = await run<{ term: string }>('getConceptTerm',
+    `SELECT preferredTerm AS term FROM concepts WHERE id = ?`,
+    [conceptId]);
+  return rows[0]?.term ?? null;
+};
@@ -1,3 +1,4 @@
+import { SnomedConcept } from '@/types/snomed';
 
 // This utility handles parsing the SNOMED Description file (Snapshot).
 // We only want to load this once or lazy load it because it's huge.
@@ -20,11 +21,6 @@
 // Columns in Description File:
 // id	effectiveTime	active	moduleId	conceptId	languageCode	typeId	term	caseSignificanceId
 
-export interface SnomedConcept {
-  id: string;
-  term: string;
-  active: boolean;
-}
 
 // This function simulates "Loading" the SNOMED data.
 // In reality, on a mobile device, you'd use `expo-sqlite` with a pre-populated DB.
@@ -47,8 +43,9 @@ export const loadSnomedData = async (): Promise<SnomedConcept[]> => {
   const subset = require('../assets/snomed_subset.json');
   return subset.map((s: any) => ({
     id: s.id,
-    term: s.term,
-    active: true
+    active: true,
+    fsn: null,
+    preferredTerm: s.term,
   }));
 };
 
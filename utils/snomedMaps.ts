@@ -0,0 +1,201 @@
+import { FinalDiagnosis, PatientData } from '@/types/pipeline';
+import { getSnomedDb } from '@/utils/snomedDb';
+
+// SNOMED CT extended maps (OPCS-4 procedures, ICD-10 diagnoses). Rows are
+// imported by scripts/build_snomed_db.py; this module evaluates them the way the
+// RF2 map specification describes: within each mapGroup, rows are tried in
+// mapPriority order and the first whose mapRule holds gives that group's target.
+// Rules that depend on facts we don't have are "unknown" and the result is
+// flagged for a human decision instead of guessed.
+
+export interface MapRow {
+  conceptId: string;
+  mapGroup: number;
+  mapPriority: number;
+  mapRule: string;
+  mapAdvice: string;
+  mapTarget: string;
+  /** OPCS-4 map only. */
+  mapBlock?: number | null;
+  /** ICD-10 map only: concept id of how well the source concept could be classified. */
+  mapCategoryId?: string | null;
+}
+
+/** Patient facts map rules can depend on. */
+export interface MapContext {
+  age?: number;
+  sex?: string;
+  /** Other concepts recorded for the patient, for "IFA <concept>" rules. */
+  conceptIds?: string[];
+}
+
+export interface MappedCode {
+  /** Target code, or null when the concept can't be classified with the data available. */
+  code: string | null;
+  group: number;
+  rule: string;
+  advice: string;
+  needsReview: boolean;
+  /** Why a human needs to confirm this code. */
+  reviewReason?: string;
+}
+
+export interface DiagnosisCode extends MappedCode {
+  /** The chosen SNOMED concept this code was mapped from. */
+  conceptId: string;
+}
+
+type RuleOutcome = 'true' | 'false' | 'unknown';
+
+const AGE_CONCEPTS = ['445518008', '424144002']; // Age at onset of clinical finding, Current chronological age
+const MALE = '248153007';
+const FEMALE = '248152002';
+
+// ICD-10 map categories that leave the code to a coder, whatever the advice says
+const REVIEW_CATEGORIES: Record<string, string> = {
+  '447638001': 'Map source concept cannot be classified with available data',
+  '447639009': 'Map of source concept is context dependent',
+};
+
+// Advice that tells the coder a decision is still needed
+const REVIEW_ADVICE = /POSSIBLE REQUIREMENT|CANNOT BE CLASSIFIED|CONTEXT DEPENDENT|CONSIDER|ADDITIONAL CODE POSSIBLE/i;
+
+const UNIT_TO_YEARS: Record<string, number> = { year: 1, years: 1, month: 1 / 12, months: 1 / 12, day: 1 / 365, days: 1 / 365 };
+
+const compare = (left: number, op: string, right: number) => {
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '=': return left === right;
+    default: return null;
+  }
+};
+
+// One "IFA <id> | term | [comparison]" clause
+const evaluateClause = (clause: string, context: MapContext): RuleOutcome => {
+  const match = clause.match(/^IFA\s+(\d+)\s*\|[^|]*\|\s*(.*)$/i);
+  if (!match) return 'unknown';
+  const [, conceptId, comparison] = match;
+
+  if (AGE_CONCEPTS.includes(conceptId)) {
+    const age = comparison.match(/^(<=|>=|<|>|=)\s*([\d.]+)\s*(\w+)/);
+    if (!age || context.age === undefined) return 'unknown';
+    const years = Number(age[2]) * (UNIT_TO_YEARS[age[3].toLowerCase()] ?? 1);
+    const result = compare(context.age, age[1], years);
+    return result === null ? 'unknown' : result ? 'true' : 'false';
+  }
+
+  if (conceptId === MALE || conceptId === FEMALE) {
+    if (!context.sex) return 'unknown';
+    return context.sex === (conceptId === MALE ? 'male' : 'female') ? 'true' : 'false';
+  }
+
+  // Co-morbidity rules: a recorded concept satisfies them, but its absence from
+  // our data doesn't prove the patient doesn't have it
+  return context.conceptIds?.includes(conceptId) ? 'true' : 'unknown';
+};
+
+export const evaluateMapRule = (rule: string, context: MapContext): RuleOutcome => {
+  const trimmed = rule.trim();
+  if (trimmed === '' || /^(OTHERWISE )?TRUE$/i.test(trimmed)) return 'true';
+
+  const outcomes = trimmed.split(/\s+AND\s+/i).map(clause => evaluateClause(clause.trim(), context));
+  if (outcomes.includes('false')) return 'false';
+  if (outcomes.includes('unknown')) return 'unknown';
+  return 'true';
+};
+
+/** Picks one target per map group for the given patient context. */
+export const resolveMap = (rows: MapRow[], context: MapContext = {}): MappedCode[] => {
+  const groups = new Map<number, MapRow[]>();
+  for (const row of rows) {
+    groups.set(row.mapGroup, [...(groups.get(row.mapGroup) ?? []), row]);
+  }
+
+  const results: MappedCode[] = [];
+  for (const [group, groupRows] of [...groups.entries()].sort((a, b) => a[0] - b[0])) {
+    const ordered = [...groupRows].sort((a, b) => a.mapPriority - b.mapPriority);
+    let undecided: MapRow | null = null;
+    let chosen: MapRow | null = null;
+
+    for (const row of ordered) {
+      const outcome = evaluateMapRule(row.mapRule, context);
+      if (outcome === 'true') {
+        chosen = row;
+        break;
+      }
+      if (outcome === 'unknown' && !undecided) undecided = row;
+    }
+
+    // An undecidable rule ahead of the match means the match may be wrong
+    const row = undecided ?? chosen;
+    if (!row) continue;
+
+    const code = row.mapTarget.trim() || null;
+    const category = row.mapCategoryId ? REVIEW_CATEGORIES[row.mapCategoryId] : undefined;
+    const reviewReason = undecided
+      ? `Rule needs information we don't have: ${undecided.mapRule}`
+      : REVIEW_ADVICE.test(row.mapAdvice)
+        ? row.mapAdvice
+        : category ?? (code === null ? 'Concept cannot be classified with the data available' : undefined);
+
+    // Groups that map to nothing and need no decision add nothing to the output
+    if (code === null && !reviewReason) continue;
+
+    results.push({
+      code,
+      group,
+      rule: row.mapRule,
+      advice: row.mapAdvice,
+      needsReview: !!reviewReason,
+      reviewReason,
+    });
+  }
+  return results;
+};
+
+// Map tables are optional in snomed.db, so lookups fail soft
+export const getMappedCodes = async (table: 'opcs_map' | 'icd10_map', conceptId: string, context?: MapContext): Promise<MappedCode[]> => {
+  try {
+    const db = await getSnomedDb();
+    // Each table has its own last column (mapBlock or mapCategoryId), and databases
+    // built before the ICD-10 one was named correctly have mapBlock in both
+    const rows = await db.getAllAsync<MapRow>(
+      `SELECT *
+         FROM ${table}
+        WHERE conceptId = ?
+        ORDER BY mapGroup, mapPriority`,
+      [conceptId]
+    );
+    return resolveMap(rows, context);
+  } catch (error) {
+    console.warn(`[SnomedMaps] ${table} lookup failed:`, error);
+    return [];
+  }
+};
+
+/**
+ * OPCS-4 codes for a SNOMED procedure concept, for UK procedure coding. Used for
+ * suggested investigations and procedures; disorders don't map to OPCS.
+ */
+export const getOpcsCodes = (conceptId: string, context?: MapContext) =>
+  getMappedCodes('opcs_map', conceptId, context);
+
+/**
+ * ICD-10 codes for a diagnosis. Age and sex rules are evaluated against the
+ * patient's demographics, and the diagnosis' other chosen concepts satisfy
+ * co-morbidity rules.
+ */
+export const getIcd10Codes = async (diagnosis: FinalDiagnosis, data?: PatientData | null): Promise<DiagnosisCode[]> => {
+  const context: MapContext = {
+    age: data?.demographics?.age,
+    sex: data?.demographics?.sex,
+    conceptIds: diagnosis.chosen_snomed_ids,
+  };
+  const perConcept = await Promise.all(diagnosis.chosen_snomed_ids.map(async conceptId =>
+    (await getMappedCodes('icd10_map', conceptId, context)).map(code => ({ ...code, conceptId }))
+  ));
+  return perConcept.flat();
+};
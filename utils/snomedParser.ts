@@ -1,18 +1,36 @@
-import { FileSystem } from 'react-native-unimodules'; // Or expo-file-system
-import { Asset } from 'expo-asset';
+import { MapRow } from '@/utils/snomedMaps';
 
 // Since we are in React Native, reading a 3M line text file at runtime is tricky/slow.
-// Usually we want a pre-built SQLite DB.
-// But let's try to parse it if possible, or at least explain the structure.
+// The app reads maps from the pre-built SQLite DB (scripts/build_snomed_db.py does
+// the same parsing offline); this parser is for small extracts and tooling.
 
-// Structure of the provided file:
-// ID | EffectiveTime | Active | ModuleId | RefsetId | RefComponentId (SNOMED) | ... | MapTarget (OPCS)
+// Structure of an RF2 Extended Map refset file (tab separated, with header):
+// id | effectiveTime | active | moduleId | refsetId | referencedComponentId (SNOMED)
+//   | mapGroup | mapPriority | mapRule | mapAdvice | mapTarget (OPCS/ICD-10) | correlationId | mapBlock
 
-// It is MISSING the 'Term' (Description). 
+// It is MISSING the 'Term' (Description).
 // We cannot search "Appen..." and find the ID because the text isn't here.
 
-export const parseMapFile = async () => {
-  // Placeholder
-  return [];
-};
+export const parseMapFile = (text: string): MapRow[] => {
+  // Full files hold every version of every row, so keep the latest per id
+  // before dropping the ones whose latest state is inactive.
+  const latest = new Map<string, string[]>();
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    if (!line.trim()) continue;
+    const columns = line.split('\t');
+    const current = latest.get(columns[0]);
+    if (!current || columns[1] > current[1]) latest.set(columns[0], columns);
+  }
 
+  return Array.from(latest.values())
+    .filter(columns => columns[2] === '1')
+    .map(columns => ({
+      conceptId: columns[5],
+      mapGroup: Number(columns[6]),
+      mapPriority: Number(columns[7]),
+      mapRule: columns[8] ?? '',
+      mapAdvice: columns[9] ?? '',
+      mapTarget: columns[10] ?? '',
+      mapBlock: columns[12] ? Number(columns[12]) : null,
+    }));
+};
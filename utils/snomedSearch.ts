@@ -0,0 +1,128 @@
+import { SnomedCandidate } from '@/types/pipeline';
+import { cosineSimilarity } from '@/utils/math';
+import { searchSnomedVectors } from '@/utils/snomedVectorIndex';
+
+// Candidate retrieval for SNOMED mapping: lexical match against the local
+// subset, then re-ranking by embedding similarity between the diagnosis phrase
+// and each candidate term. Without an embedder the lexical score is used as is.
+// With one, the full-terminology vector index contributes candidates too.
+
+export interface SnomedTerm {
+  id: string;
+  term: string;
+}
+
+export type Embedder = (text: string) => Promise<number[]>;
+
+export interface SnomedSearchOptions {
+  embed?: Embedder;
+  /** Embeddings are only comparable within one model, so the cache is keyed by it. */
+  modelName?: string;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+// Load the local SNOMED subset directly (no database)
+const snomedSubset: SnomedTerm[] = require('@/assets/snomed_subset.json');
+
+// Below this similarity a term without any lexical overlap is not a candidate
+const MIN_SIMILARITY = 0.5;
+const DEFAULT_LIMIT = 5;
+
+// model -> term -> embedding. Terms never change, so entries live for the whole session.
+const termEmbeddingCache = new Map<string, Map<string, number[]>>();
+
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1));
+
+// Exact match scores 1 and a substring match 0.5-1 depending on how much of the
+// longer string it covers; otherwise up to 0.5 for the share of phrase tokens in the term
+const lexicalScore = (phrase: string, term: string) => {
+  const lowerPhrase = phrase.trim().toLowerCase();
+  const lowerTerm = term.toLowerCase();
+  if (lowerTerm.includes(lowerPhrase) || lowerPhrase.includes(lowerTerm)) {
+    const shorter = Math.min(lowerPhrase.length, lowerTerm.length);
+    const longer = Math.max(lowerPhrase.length, lowerTerm.length);
+    return 0.5 + 0.5 * (shorter / longer);
+  }
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.size === 0) return 0;
+  const termTokens = tokenize(term);
+  let shared = 0;
+  phraseTokens.forEach(t => { if (termTokens.has(t)) shared++; });
+  return 0.5 * (shared / phraseTokens.size);
+};
+
+const embedTerm = async (term: string, embed: Embedder, modelName: string) => {
+  let cache = termEmbeddingCache.get(modelName);
+  if (!cache) {
+    cache = new Map();
+    termEmbeddingCache.set(modelName, cache);
+  }
+  const cached = cache.get(term);
+  if (cached) return cached;
+  const embedding = await embed(term);
+  cache.set(term, embedding);
+  return embedding;
+};
+
+/** Scores candidate terms against a phrase, best first. */
+export const rankSnomedCandidates = async (
+  phrase: string,
+  terms: SnomedTerm[],
+  { embed, modelName = 'default', limit = DEFAULT_LIMIT, signal }: SnomedSearchOptions = {}
+): Promise<SnomedCandidate[]> => {
+  const lexical = terms.map(t => ({ ...t, lexical: lexicalScore(phrase, t.term) }));
+
+  if (embed) {
+    try {
+      const phraseEmbedding = await embedTerm(phrase, embed, modelName);
+      const scored: SnomedCandidate[] = [];
+      for (const t of lexical) {
+        if (signal?.aborted) break;
+        const similarity = cosineSimilarity(phraseEmbedding, await embedTerm(t.term, embed, modelName));
+        if (t.lexical > 0 || similarity >= MIN_SIMILARITY) {
+          scored.push({ id: t.id, term: t.term, score: similarity });
+        }
+      }
+      return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    } catch (err) {
+      console.warn("Embedding re-rank failed, using lexical scores:", err);
+    }
+  }
+
+  return lexical
+    .filter(t => t.lexical > 0)
+    .sort((a, b) => b.lexical - a.lexical)
+    .slice(0, limit)
+    .map(t => ({ id: t.id, term: t.term, score: t.lexical }));
+};
+
+/**
+ * Ranks the local subset for a diagnosis phrase and, when an embedder is given,
+ * adds the nearest concepts from the full-terminology vector index in snomed.db.
+ */
+export const retrieveSnomedCandidates = async (phrase: string, options: SnomedSearchOptions = {}) => {
+  const subsetCandidates = await rankSnomedCandidates(phrase, snomedSubset, options);
+  const { embed, modelName, limit = DEFAULT_LIMIT, signal } = options;
+  if (!embed || !modelName || signal?.aborted) return subsetCandidates;
+
+  let indexCandidates: SnomedCandidate[] = [];
+  try {
+    // Already cached by rankSnomedCandidates
+    const phraseEmbedding = await embedTerm(phrase, embed, modelName);
+    indexCandidates = await searchSnomedVectors(phraseEmbedding, { modelId: modelName, k: limit });
+  } catch (err) {
+    console.warn("Vector index search failed:", err);
+  }
+
+  const merged = new Map<string, SnomedCandidate>();
+  for (const candidate of [...subsetCandidates, ...indexCandidates]) {
+    const current = merged.get(candidate.id);
+    if (!current || candidate.score > current.score) merged.set(candidate.id, candidate);
+  }
+  return Array.from(merged.values())
+    .filter(c => c.score >= MIN_SIMILARITY || subsetCandidates.includes(c))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,83 @@
+// Legacy import to silence deprecation warning until migration to new FileSystem API
+import { documentDirectory } from 'expo-file-system/legacy';
+import * as SQLite from 'expo-sqlite';
+import { throwIfAborted } from '@/utils/abort';
+import { getSnomedDb } from '@/utils/snomedDb';
+import { Embedder } from '@/utils/snomedSearch';
+
+// Embeds every active SNOMED description with an on-device Cactus model and
+// stores the raw vectors in their own database, for scripts/build_snomed_vectors.py
+// to turn into the IVF index. The index has to come from the model that embeds
+// the queries: vectors from any other model live in a different space, and
+// cosine similarity between the two means nothing. Cactus only runs on the
+// device, so this is where the vectors are made.
+//
+// Layout of snomed-vectors.db:
+//   meta     key/value: model (Cactus slug), dim
+//   vectors  description_id -> little-endian float32 vector
+//
+// Descriptions are embedded in id order and each batch is committed, so an
+// interrupted export resumes after the last stored id.
+
+export const VECTOR_EXPORT_DB = 'snomed-vectors.db';
+// Where expo-sqlite keeps it, as a file URI for the share sheet (same layout as utils/snomedDb.ts)
+export const VECTOR_EXPORT_PATH = `${documentDirectory}SQLite/${VECTOR_EXPORT_DB}`;
+
+const BATCH_SIZE = 256;
+
+export interface VectorExportProgress {
+  done: number;
+  total: number;
+}
+
+export const exportDescriptionEmbeddings = async (
+  embed: Embedder,
+  modelId: string,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: VectorExportProgress) => void } = {}
+) => {
+  const snomed = await getSnomedDb();
+  const out = await SQLite.openDatabaseAsync(VECTOR_EXPORT_DB);
+  try {
+    await out.execAsync(`
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT);
+      CREATE TABLE IF NOT EXISTS vectors (description_id TEXT PRIMARY KEY, vector BLOB NOT NULL);
+    `);
+    // Vectors of another model can't be mixed in; start over
+    const stamped = await out.getFirstAsync<{ value: string }>(`SELECT value FROM meta WHERE key = 'model'`);
+    if (stamped && stamped.value !== modelId) await out.execAsync('DELETE FROM vectors; DELETE FROM meta;');
+    await out.runAsync(`INSERT OR REPLACE INTO meta (key, value) VALUES ('model', ?)`, [modelId]);
+
+    const total = (await snomed.getFirstAsync<{ n: number }>('SELECT COUNT(*) AS n FROM descriptions WHERE active = 1'))?.n ?? 0;
+    let done = (await out.getFirstAsync<{ n: number }>('SELECT COUNT(*) AS n FROM vectors'))?.n ?? 0;
+    let after = (await out.getFirstAsync<{ id: string | null }>('SELECT MAX(description_id) AS id FROM vectors'))?.id ?? '';
+    onProgress?.({ done, total });
+
+    for (;;) {
+      const rows = await snomed.getAllAsync<{ id: string; term: string }>(
+        'SELECT id, term FROM descriptions WHERE active = 1 AND id > ? ORDER BY id LIMIT ?',
+        [after, BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+
+      const vectors: { id: string; vector: Uint8Array }[] = [];
+      for (const row of rows) {
+        throwIfAborted(signal);
+        const embedding = Float32Array.from(await embed(row.term));
+        vectors.push({ id: row.id, vector: new Uint8Array(embedding.buffer) });
+      }
+      await out.withTransactionAsync(async () => {
+        for (const { id, vector } of vectors) {
+          await out.runAsync('INSERT OR REPLACE INTO vectors (description_id, vector) VALUES (?, ?)', [id, vector]);
+        }
+        await out.runAsync(`INSERT OR REPLACE INTO meta (key, value) VALUES ('dim', ?)`, [String(vectors[0].vector.byteLength / 4)]);
+      });
+
+      done += rows.length;
+      after = rows[rows.length - 1].id;
+      onProgress?.({ done, total });
+    }
+    return VECTOR_EXPORT_PATH;
+  } finally {
+    await out.closeAsync();
+  }
+};
@@ -0,0 +1,181 @@
+import * as SQLite from 'expo-sqlite';
+import { SnomedCandidate } from '@/types/pipeline';
+import { getSnomedDb } from '@/utils/snomedDb';
+
+// Approximate nearest-neighbour search over the IVF index that
+// scripts/build_snomed_vectors.py stores in snomed.db. Only the centroids stay
+// in memory; a query scans the `nprobe` lists closest to it, reading one list
+// from SQLite at a time, and recently used lists are kept in a small byte-bounded
+// cache. The index is tied to the embedding model it was built with and is
+// ignored (and dropped from memory) when a different model asks. Indexes not
+// built from vectors the app exported (older builds embedded descriptions with
+// a different model and only stamped the name) are ignored too.
+
+interface VectorIndex {
+  model: string;
+  dim: number;
+  centroids: Float32Array[];
+}
+
+interface VectorRow {
+  description_rowid: number;
+  scale: number;
+  vector: Uint8Array;
+  conceptId: string;
+  term: string;
+  preferredTerm: string;
+}
+
+export interface VectorSearchOptions {
+  /** Id of the model that produced the query embedding; must match the index. */
+  modelId: string;
+  k?: number;
+  /** Lists to scan. More lists = better recall, more rows read. */
+  nprobe?: number;
+}
+
+// Set by build_snomed_vectors.py when the vectors came from the app's own Cactus model
+const INDEX_EMBEDDER = 'cactus';
+const DEFAULT_K = 10;
+const DEFAULT_NPROBE = 8;
+// Budget for cached list rows (int8 vectors plus terms), sized for low-end phones
+const LIST_CACHE_BYTES = 8 * 1024 * 1024;
+
+let indexPromise: Promise<VectorIndex | null> | null = null;
+let indexModel: string | null = null;
+
+// list_id -> rows, in least-recently-used order
+const listCache = new Map<number, { rows: VectorRow[]; bytes: number }>();
+let listCacheBytes = 0;
+
+const resetIndex = () => {
+  indexPromise = null;
+  indexModel = null;
+  listCache.clear();
+  listCacheBytes = 0;
+};
+
+// BLOBs come back as Uint8Array views that may not be 4-byte aligned, so copy before reinterpreting
+const toFloat32 = (blob: Uint8Array) => new Float32Array(blob.slice().buffer);
+const toInt8 = (blob: Uint8Array) => new Int8Array(blob.buffer, blob.byteOffset, blob.byteLength);
+
+const loadIndex = async (modelId: string): Promise<VectorIndex | null> => {
+  const db = await getSnomedDb();
+  try {
+    const meta = await db.getAllAsync<{ key: string; value: string }>('SELECT key, value FROM embedding_meta');
+    const values = Object.fromEntries(meta.map(row => [row.key, row.value]));
+    if (values.embedder !== INDEX_EMBEDDER) {
+      console.warn("[SnomedVectors] Index was not built from on-device embeddings; vector search disabled. Rebuild it with build_snomed_vectors.py --vectors.");
+      return null;
+    }
+    if (values.model !== modelId) {
+      console.warn(`[SnomedVectors] Index built for '${values.model}', not '${modelId}'; vector search disabled.`);
+      return null;
+    }
+
+    const rows = await db.getAllAsync<{ list_id: number; centroid: Uint8Array }>(
+      'SELECT list_id, centroid FROM ivf_centroids ORDER BY list_id'
+    );
+    const centroids = rows.map(row => toFloat32(row.centroid));
+    console.log(`[SnomedVectors] Loaded ${centroids.length} centroids for '${modelId}'`);
+    return { model: modelId, dim: Number(values.dim), centroids };
+  } catch (error) {
+    // Databases built without build_snomed_vectors.py have no index tables
+    console.warn("[SnomedVectors] No vector index available:", error);
+    return null;
+  }
+};
+
+const getIndex = (modelId: string) => {
+  if (indexModel !== modelId) {
+    resetIndex();
+    indexModel = modelId;
+    indexPromise = loadIndex(modelId);
+  }
+  return indexPromise!;
+};
+
+const readList = async (db: SQLite.SQLiteDatabase, listId: number): Promise<VectorRow[]> => {
+  const cached = listCache.get(listId);
+  if (cached) {
+    // Re-insert to mark as most recently used
+    listCache.delete(listId);
+    listCache.set(listId, cached);
+    return cached.rows;
+  }
+
+  const rows = await db.getAllAsync<VectorRow>(
+    `SELECT v.description_rowid, v.scale, v.vector, d.conceptId, d.term, c.preferredTerm
+       FROM description_vectors v
+       JOIN descriptions d ON d.rowid = v.description_rowid
+       JOIN concepts c ON c.id = d.conceptId
+      WHERE v.list_id = ? AND d.active = 1 AND c.active = 1`,
+    [listId]
+  );
+
+  const bytes = rows.reduce((sum, row) => sum + row.vector.byteLength + (row.term.length + row.preferredTerm.length) * 2 + 64, 0);
+  if (bytes <= LIST_CACHE_BYTES) {
+    listCache.set(listId, { rows, bytes });
+    listCacheBytes += bytes;
+    for (const [id, entry] of listCache) {
+      if (listCacheBytes <= LIST_CACHE_BYTES) break;
+      listCache.delete(id);
+      listCacheBytes -= entry.bytes;
+    }
+  }
+  return rows;
+};
+
+const normalize = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return Float32Array.from(vector, v => v / norm);
+};
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/** Top-k concepts across the whole terminology for a query embedding, best first. */
+export const searchSnomedVectors = async (
+  embedding: number[],
+  { modelId, k = DEFAULT_K, nprobe = DEFAULT_NPROBE }: VectorSearchOptions
+): Promise<SnomedCandidate[]> => {
+  const index = await getIndex(modelId);
+  if (!index) return [];
+  if (embedding.length !== index.dim) {
+    console.warn(`[SnomedVectors] Query has ${embedding.length} dims, index has ${index.dim}`);
+    return [];
+  }
+
+  const query = normalize(embedding);
+  const lists = index.centroids
+    .map((centroid, listId) => ({ listId, similarity: dot(query, centroid) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, nprobe);
+
+  const db = await getSnomedDb();
+  // Best score per concept, so synonyms of one concept don't crowd out the others
+  const best = new Map<string, SnomedCandidate>();
+
+  for (const { listId } of lists) {
+    for (const row of await readList(db, listId)) {
+      const codes = toInt8(row.vector);
+      let sum = 0;
+      for (let i = 0; i < codes.length; i++) sum += query[i] * codes[i];
+      const score = sum * row.scale;
+      const current = best.get(row.conceptId);
+      if (!current || score > current.score) {
+        best.set(row.conceptId, {
+          id: row.conceptId,
+          term: row.preferredTerm,
+          score,
+          ...(row.term !== row.preferredTerm ? { matchedTerm: row.term } : {}),
+        });
+      }
+    }
+  }
+
+  return Array.from(best.values()).sort((a, b) => b.score - a.score).slice(0, k);
+};
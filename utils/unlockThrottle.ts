@@ -0,0 +1,46 @@
+// Backoff for passcode guesses. A few mistypes are free; after that every
+// failure doubles the wait before the next try, up to an hour, and the lock
+// screen offers to wipe the data once the count gets high. The count is kept
+// with the wrapped key, so restarting the app doesn't reset it.
+
+export interface UnlockAttempts {
+  failed: number;
+  /** Epoch ms of the last failure, null when there was none since the last unlock. */
+  lastFailureAt: number | null;
+}
+
+export const NO_FAILED_ATTEMPTS: UnlockAttempts = { failed: 0, lastFailureAt: null };
+
+/** Failures allowed before any delay. */
+export const FREE_ATTEMPTS = 3;
+/** Failures after which the lock screen offers to wipe everything. */
+export const WIPE_OFFER_ATTEMPTS = 10;
+
+const BASE_DELAY_MS = 30_000;
+const MAX_DELAY_MS = 60 * 60_000;
+
+/** Wait imposed after `failed` consecutive failures. */
+export const unlockDelayMs = (failed: number) =>
+  failed < FREE_ATTEMPTS ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failed - FREE_ATTEMPTS), MAX_DELAY_MS);
+
+/** Epoch ms before which no guess is accepted, or null when one is accepted now. */
+export const unlockAllowedAt = (attempts: UnlockAttempts, now = Date.now()): number | null => {
+  if (attempts.lastFailureAt === null) return null;
+  const allowedAt = attempts.lastFailureAt + unlockDelayMs(attempts.failed);
+  return allowedAt > now ? allowedAt : null;
+};
+
+export const recordFailedAttempt = (attempts: UnlockAttempts, now = Date.now()): UnlockAttempts =>
+  ({ failed: attempts.failed + 1, lastFailureAt: now });
+
+// A stored count that can't be read counts as the worst case rather than none
+export const parseUnlockAttempts = (raw: string | null): UnlockAttempts => {
+  if (raw === null) return NO_FAILED_ATTEMPTS;
+  try {
+    const { failed, lastFailureAt } = JSON.parse(raw);
+    if (Number.isInteger(failed) && failed >= 0 && (lastFailureAt === null || typeof lastFailureAt === 'number')) {
+      return { failed, lastFailureAt };
+    }
+  } catch {}
+  return { failed: WIPE_OFFER_ATTEMPTS, lastFailureAt: Date.now() };
+};